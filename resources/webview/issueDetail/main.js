@@ -221,7 +221,9 @@
           const commentDateEl = document.createElement('div');
           commentDateEl.className = 'comment-date';
           const date = comment.createdAt ? new Date(comment.createdAt) : new Date();
-          commentDateEl.textContent = date.toLocaleString();
+          commentDateEl.textContent = comment.pending
+            ? `${date.toLocaleString()}（送信待ち）`
+            : date.toLocaleString();
 
           commentEl.appendChild(commentBodyEl);
           commentEl.appendChild(commentDateEl);
@@ -4,25 +4,308 @@ import { IssueTreeProvider } from "./providers/issueTreeProvider";
 import { IssueDetailViewProvider } from "./providers/issueDetailViewProvider";
 import { IssueFormProvider } from "./providers/issueFormProvider";
 import { FilterService } from "./services/filterService";
-import { SearchCriteria } from "./services/linearService";
-import { CacheService } from "./services/cache/cacheService";
+import { ConfigurationService } from "./services/configurationService";
+import {
+  IssueScopeType,
+  LinearCredential,
+  SearchCriteria,
+} from "./services/linearService";
+import { CacheMetrics, CacheService } from "./services/cache/cacheService";
+import { createCacheStorage } from "./services/cache/cacheStorage";
+import { SyncScheduler } from "./services/sync/syncScheduler";
+import {
+  MutationQueue,
+  PendingMutation,
+} from "./services/offline/mutationQueue";
+import { OfflineStatusBar } from "./providers/offlineStatusBar";
+import {
+  CacheInspectorNode,
+  CacheInspectorProvider,
+  formatSize,
+} from "./providers/cacheInspectorProvider";
+import { AccountService, LinearAccount } from "./services/auth/accountService";
+import {
+  LINEAR_AUTH_PROVIDER_ID,
+  LINEAR_OAUTH_SCOPES,
+  LinearAuthenticationProvider,
+} from "./services/auth/linearAuthenticationProvider";
+import { getOAuthConfig } from "./services/auth/linearOAuthClient";
+import { IssueSnapshot } from "./models/issueSnapshot";
+import { BudgetSnapshot } from "./services/request/rateLimitBudget";
+import { initializeLogging, Logger, showLogs } from "./services/logging/logger";
+
+const logger = new Logger("Extension");
 
 export async function activate(context: vscode.ExtensionContext) {
-  const apiToken = vscode.workspace
-    .getConfiguration("linear")
-    .get<string>("apiToken");
+  context.subscriptions.push(
+    initializeLogging(),
+    vscode.commands.registerCommand("linear.showLogs", showLogs)
+  );
+
+  const authProvider = new LinearAuthenticationProvider(context);
+  context.subscriptions.push(
+    authProvider,
+    vscode.authentication.registerAuthenticationProvider(
+      LINEAR_AUTH_PROVIDER_ID,
+      "Linear",
+      authProvider,
+      { supportsMultipleAccounts: true }
+    ),
+    vscode.window.registerUriHandler(authProvider)
+  );
+  const accountService = new AccountService(context, authProvider);
+  const configurationService = new ConfigurationService();
+  context.subscriptions.push(configurationService);
+
+  // 認証情報を取得できるまでLinearServiceは作成しない
+  let linearService: LinearService | undefined;
+  let cacheService: CacheService | undefined;
+  let mutationQueue: MutationQueue | undefined;
+
+  /**
+   * 選択中のアカウントをLinearServiceに反映する（未作成の場合は作成する）
+   */
+  const activateAccount = async (account: LinearAccount | undefined) => {
+    const credential = account
+      ? await accountService.getCredential(account)
+      : undefined;
+    await setSignedIn(!!credential);
+    if (!account || !credential) {
+      return;
+    }
 
-  if (!apiToken) {
-    vscode.window.showErrorMessage(
-      "Linear API token is not set. Please add it in the settings."
+    if (!linearService) {
+      ({ linearService, cacheService, mutationQueue } = initializeExtension(
+        context,
+        accountService,
+        configurationService,
+        account.id,
+        credential
+      ));
+      return;
+    }
+    linearService.switchAccount(account.id, credential);
+  };
+
+  /**
+   * アカウントを追加し、そのアカウントに切り替える
+   */
+  const addAccount = async (
+    add: () => Promise<LinearAccount>,
+    progressTitle: string
+  ) => {
+    let account: LinearAccount;
+    try {
+      account = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: progressTitle,
+        },
+        add
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to sign in to Linear: ${error}`);
+      return;
+    }
+
+    await accountService.setActiveAccount(account.id);
+    vscode.window.showInformationMessage(
+      `Signed in to ${account.organization?.name ?? "Linear"} as ${
+        account.label
+      }`
     );
-    return;
-  }
+  };
+
+  const signInWithApiKey = async () => {
+    const token = await vscode.window.showInputBox({
+      title: "Sign in to Linear",
+      prompt:
+        "Enter a personal API key (Linear Settings > API > Personal API keys)",
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: (value) =>
+        value.trim() ? undefined : "API key must not be empty",
+    });
+    if (!token) {
+      return;
+    }
+    await addAccount(
+      () => accountService.addApiKeyAccount(token.trim()),
+      "Verifying Linear API key..."
+    );
+  };
+
+  const signInWithOAuth = async () => {
+    await addAccount(async () => {
+      // 既存のセッションを再利用せず、別のワークスペースも選べるよう新しいセッションを作成する
+      const session = await authProvider.createSession(LINEAR_OAUTH_SCOPES);
+      return accountService.addOAuthAccount(session);
+    }, "Signing in to Linear...");
+  };
+
+  const signIn = async () => {
+    // OAuthのクライアントIDが設定されている場合のみOAuthを選択できる
+    if (!getOAuthConfig()) {
+      await signInWithApiKey();
+      return;
+    }
+
+    const method = await vscode.window.showQuickPick(
+      [
+        {
+          label: "$(globe) Sign in with Linear",
+          description: "OAuth in the browser",
+          oauth: true,
+        },
+        {
+          label: "$(key) Use a personal API key",
+          oauth: false,
+        },
+      ],
+      { placeHolder: "How do you want to sign in to Linear?" }
+    );
+    if (!method) {
+      return;
+    }
+    await (method.oauth ? signInWithOAuth() : signInWithApiKey());
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("linear.signIn", signIn),
+    vscode.commands.registerCommand("linear.switchAccount", async () => {
+      const active = accountService.getActiveAccount();
+      const items: (vscode.QuickPickItem & { accountId?: string })[] =
+        accountService.getAccounts().map((account) => ({
+          label: `${account.id === active?.id ? "$(check)" : "$(blank)"} ${
+            account.organization?.name ?? account.label
+          }`,
+          description: account.label,
+          detail: account.type === "oauth" ? "OAuth" : "API key",
+          accountId: account.id,
+        }));
+      items.push({ label: "$(add) Add account..." });
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: "Select a Linear workspace",
+      });
+      if (!selected) {
+        return;
+      }
+      if (!selected.accountId) {
+        await signIn();
+        return;
+      }
+      if (selected.accountId !== active?.id) {
+        await accountService.setActiveAccount(selected.accountId);
+      }
+    }),
+    vscode.commands.registerCommand("linear.signOut", async () => {
+      const account = accountService.getActiveAccount();
+      if (!account) {
+        return;
+      }
+
+      // 残りのアカウントがあればonDidChangeActiveAccountで切り替わる
+      await accountService.removeAccount(account.id);
+      cacheService?.removeNamespace(account.id);
+      mutationQueue?.removeNamespace(account.id);
+
+      if (!linearService || accountService.getAccounts().length > 0) {
+        vscode.window.showInformationMessage(
+          `Signed out of ${account.organization?.name ?? "Linear"}`
+        );
+        return;
+      }
+
+      // 作成済みのサービスやビューを破棄するためウィンドウを再読み込みする
+      const choice = await vscode.window.showInformationMessage(
+        "Signed out of Linear. Reload the window to finish signing out.",
+        "Reload Window"
+      );
+      if (choice) {
+        vscode.commands.executeCommand("workbench.action.reloadWindow");
+      }
+    }),
+    accountService.onDidChangeActiveAccount((account) =>
+      activateAccount(account)
+    ),
+    // 設定にトークンが入力された場合はアカウントに移行し、そのアカウントのキャッシュを破棄して接続し直す
+    configurationService.onDidChange(async (change) => {
+      if (!change.apiToken) {
+        return;
+      }
+      const migrated = await accountService.migrateLegacyCredentials();
+      if (!migrated) {
+        return;
+      }
+      cacheService?.removeNamespace(migrated.id);
+      await accountService.setActiveAccount(migrated.id);
+    }),
+    // トークンの更新やアカウントメニューからのサインアウトを反映する
+    vscode.authentication.onDidChangeSessions(async (e) => {
+      if (e.provider.id !== LINEAR_AUTH_PROVIDER_ID) {
+        return;
+      }
+      const account = accountService.getActiveAccount();
+      if (!account || account.type !== "oauth" || !linearService) {
+        return;
+      }
 
-  // キャッシュサービスの初期化
-  const cacheService = new CacheService(context);
+      const credential = await accountService.getCredential(account);
+      if (credential) {
+        linearService.updateCredential(credential, { keepCache: true });
+      } else {
+        await accountService.removeAccount(account.id);
+      }
+    })
+  );
 
-  const linearService = new LinearService(apiToken, cacheService);
+  await accountService.migrateLegacyCredentials();
+  await activateAccount(accountService.getActiveAccount());
+  // ビューにはサインインしていない場合に案内を表示する（package.jsonのviewsWelcome）
+}
+
+/**
+ * サインイン状態をコンテキストキーに反映する
+ */
+function setSignedIn(signedIn: boolean): Thenable<unknown> {
+  return vscode.commands.executeCommand(
+    "setContext",
+    "linear.signedIn",
+    signedIn
+  );
+}
+
+/**
+ * 認証情報を取得できた後にサービス・ビュー・コマンドを初期化する
+ * @returns 作成したサービス
+ */
+function initializeExtension(
+  context: vscode.ExtensionContext,
+  accountService: AccountService,
+  configurationService: ConfigurationService,
+  accountId: string,
+  credential: LinearCredential
+): {
+  linearService: LinearService;
+  cacheService: CacheService;
+  mutationQueue: MutationQueue;
+} {
+  // キャッシュサービスの初期化（アカウントごとに保存先を分ける）
+  const cacheService = new CacheService(createCacheStorage(context), accountId);
+  // 削除済みのアカウントのキャッシュや、書き込み途中で残ったファイルを削除する
+  cacheService
+    .compactStorage(accountService.getAccounts().map((account) => account.id))
+    .catch((e) => logger.error("Failed to compact cache storage", e));
+
+  // オフライン中の変更を保持するキュー
+  const mutationQueue = new MutationQueue(context.globalState, accountId);
+
+  const linearService = new LinearService(
+    credential,
+    cacheService,
+    mutationQueue
+  );
   const issueTreeProvider = new IssueTreeProvider(linearService, context);
   const issueDetailProvider = new IssueDetailViewProvider(
     context.extensionUri,
@@ -35,6 +318,108 @@ export async function activate(context: vscode.ExtensionContext) {
 
   const filterService = new FilterService();
 
+  // 定期的な差分同期
+  const syncScheduler = new SyncScheduler(linearService);
+
+  context.subscriptions.push(
+    cacheService,
+    mutationQueue,
+    linearService,
+    issueDetailProvider,
+    syncScheduler,
+    new OfflineStatusBar(linearService, mutationQueue)
+  );
+
+  // 未送信の変更の説明文を作成する
+  const describeMutation = (mutation: PendingMutation): string => {
+    switch (mutation.type) {
+      case "createIssue":
+        return `Create issue "${mutation.input.title}"`;
+      case "updateIssue": {
+        const issue = cacheService.getIssue(mutation.issueId, 0);
+        return `Update ${issue?.identifier ?? mutation.issueId}`;
+      }
+      case "addComment": {
+        const issue = cacheService.getIssue(mutation.issueId, 0);
+        return `Comment on ${issue?.identifier ?? mutation.issueId}`;
+      }
+    }
+  };
+
+  // 診断情報としてレート制限の残量を表示する
+  const describeBudget = (
+    name: string,
+    budget: BudgetSnapshot | undefined
+  ): string => {
+    if (!budget) {
+      return `- ${name}: unknown`;
+    }
+    const percent =
+      budget.limit > 0
+        ? Math.round((budget.remaining / budget.limit) * 100)
+        : 0;
+    const reset = budget.resetAt
+      ? ` (resets ${new Date(budget.resetAt).toLocaleString()})`
+      : "";
+    return `- ${name}: ${budget.remaining} / ${budget.limit} remaining (${percent}%)${reset}`;
+  };
+
+  // 診断情報としてキャッシュの使用状況を表示する
+  const describeCache = (metrics: CacheMetrics): string[] => {
+    const lookups = metrics.hits + metrics.misses + metrics.expired;
+    const hitRate =
+      lookups > 0 ? `${Math.round((metrics.hits / lookups) * 100)}%` : "n/a";
+    return [
+      "## Cache",
+      "",
+      `- Entries: ${metrics.entries} (${formatSize(
+        metrics.size
+      )} / ${formatSize(metrics.maxSize)})`,
+      `- Storage: ${cacheService.storageType}`,
+      `- Cached issues: ${metrics.issueEntities}`,
+      `- Hits: ${metrics.hits}, misses: ${metrics.misses}, expired: ${metrics.expired} (hit rate ${hitRate})`,
+      `- Evictions: ${metrics.evictions}, swept: ${metrics.swept}`,
+      `- Writes to storage: ${metrics.persists}`,
+      "",
+      "| Namespace | Entries | Limit | Size |",
+      "| --- | ---: | ---: | ---: |",
+      ...metrics.namespaces.map(
+        (namespace) =>
+          `| ${namespace.namespace} | ${namespace.entries} | ${
+            namespace.limit
+          } | ${formatSize(namespace.size)} |`
+      ),
+    ];
+  };
+
+  // 競合した変更の解決方法をユーザーに選択してもらう
+  const resolveConflict = async (mutation: PendingMutation) => {
+    const choice = await vscode.window.showWarningMessage(
+      `${describeMutation(mutation)} could not be applied: ${
+        mutation.conflictReason ?? "conflict"
+      }`,
+      "Overwrite",
+      "Discard"
+    );
+    if (!choice) {
+      return;
+    }
+    try {
+      await linearService.resolveConflict(
+        mutation.id,
+        choice === "Overwrite" ? "overwrite" : "discard"
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to resolve pending change: ${error}`
+      );
+    }
+  };
+
+  context.subscriptions.push(
+    linearService.onDidDetectConflict((mutation) => resolveConflict(mutation))
+  );
+
   // 初期化時にWebViewを表示するためのコマンド登録
   const initializeViewsCommand = vscode.commands.registerCommand(
     "linear.initializeViews",
@@ -53,14 +438,14 @@ export async function activate(context: vscode.ExtensionContext) {
         for (const cmd of tries) {
           try {
             await vscode.commands.executeCommand(cmd);
-            console.log(`Successfully executed command: ${cmd}`);
+            logger.debug(`Executed view command ${cmd}`);
             break; // 成功したらループを抜ける
           } catch (e) {
-            console.log(`Failed to execute command: ${cmd}`, e);
+            logger.debug(`View command ${cmd} failed: ${e}`);
           }
         }
       } catch (e) {
-        console.log("Failed to initialize views", e);
+        logger.error("Failed to initialize views", e);
       }
     }
   );
@@ -69,18 +454,18 @@ export async function activate(context: vscode.ExtensionContext) {
   // 拡張機能起動時に自動的にビューを初期化
   setTimeout(async () => {
     try {
-      console.log("拡張機能の初期化: ビューの初期化を開始");
+      logger.debug("Initializing views");
 
       // 手順1: Linearビューコンテナを開く
       await vscode.commands.executeCommand("workbench.view.extension.linear");
-      console.log("拡張機能の初期化: Linearコンテナを開きました");
+      logger.debug("Opened the Linear view container");
 
       // 初期化が確実に行われるよう少し待機
       await new Promise((resolve) => setTimeout(resolve, 500));
 
       // 手順2: Issue Tree（リスト）を表示
       await vscode.commands.executeCommand("linearIssues.focus");
-      console.log("拡張機能の初期化: Issue Treeを表示しました");
+      logger.debug("Focused the issue tree");
 
       // さらに少し待機
       await new Promise((resolve) => setTimeout(resolve, 500));
@@ -96,12 +481,10 @@ export async function activate(context: vscode.ExtensionContext) {
         for (const cmd of detailCommands) {
           try {
             await vscode.commands.executeCommand(cmd);
-            console.log(
-              `拡張機能の初期化: ${cmd} でIssue Detailを表示しました`
-            );
+            logger.debug(`Opened the issue detail view with ${cmd}`);
             break;
           } catch (err) {
-            console.log(`拡張機能の初期化: ${cmd} の実行に失敗:`, err);
+            logger.debug(`View command ${cmd} failed: ${err}`);
           }
         }
 
@@ -111,11 +494,9 @@ export async function activate(context: vscode.ExtensionContext) {
         //   const dummyIssueId = "initialization-dummy-id";
         //   // updateIssueDetailメソッドは、WebViewが利用できない場合は_pendingIssueIdに保存するだけ
         //   await issueDetailProvider.updateIssueDetail(dummyIssueId);
-        //   console.log(
-        //     "拡張機能の初期化: Issue Detailパネルの初期化を試みました"
-        //   );
+        //   logger.debug("Initialized the issue detail view");
         // } catch (initErr) {
-        //   console.log("拡張機能の初期化: Issue Detail初期化エラー:", initErr);
+        //   logger.error("Failed to initialize the issue detail view", initErr);
         // }
 
         // Issue FormビューもViewの一部として初期化（必要に応じて）
@@ -123,7 +504,7 @@ export async function activate(context: vscode.ExtensionContext) {
           await vscode.commands.executeCommand(
             "workbench.view.extension.linearIssueForm"
           );
-          console.log("拡張機能の初期化: Issue Formを表示しました");
+          logger.debug("Opened the issue form view");
         } catch (formErr) {
           // フォームの表示は省略可能なので、エラーは無視
         }
@@ -131,10 +512,10 @@ export async function activate(context: vscode.ExtensionContext) {
         // 最終的にIssue Treeに戻す
         await vscode.commands.executeCommand("linearIssues.focus");
       } catch (viewErr) {
-        console.log("拡張機能の初期化: 詳細ビューの初期化でエラー:", viewErr);
+        logger.error("Failed to initialize the issue detail view", viewErr);
       }
     } catch (error) {
-      console.error("拡張機能の初期化: ビューの初期化に失敗:", error);
+      logger.error("Failed to initialize views", error);
     }
   }, 1500); // 少し長めの遅延で確実にVSCodeが準備できた状態で実行
 
@@ -156,6 +537,34 @@ export async function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  // キャッシュの内容を確認するビュー（コマンド linear.inspectCache で表示する）
+  const cacheInspectorProvider = new CacheInspectorProvider(cacheService);
+  const cacheTreeView = vscode.window.createTreeView("linearCache", {
+    treeDataProvider: cacheInspectorProvider,
+    showCollapseAll: true,
+  });
+  const refreshCacheInspector = () => {
+    cacheTreeView.message = cacheInspectorProvider.describe();
+    cacheInspectorProvider.refresh();
+  };
+  context.subscriptions.push(
+    cacheInspectorProvider,
+    cacheTreeView,
+    cacheTreeView.onDidChangeVisibility((e) => {
+      if (e.visible) {
+        refreshCacheInspector();
+      }
+    })
+  );
+
+  // キャッシュを削除した後、削除した値を表示しているビューを取得し直す
+  const afterCacheInvalidated = (prefix: string) => {
+    if (prefix.startsWith("issues") || "issues:".startsWith(prefix)) {
+      issueTreeProvider.refresh();
+    }
+    refreshCacheInspector();
+  };
+
   // 独自のビュー表示コマンドを登録
   const showIssueDetailViewCommand = vscode.commands.registerCommand(
     "linear.showIssueDetailView",
@@ -163,9 +572,9 @@ export async function activate(context: vscode.ExtensionContext) {
       // まずLinearビューコンテナを開く（これは通常機能する）
       try {
         await vscode.commands.executeCommand("workbench.view.extension.linear");
-        console.log("Linear extension view container activated");
+        logger.debug("Opened the Linear view container");
       } catch (error) {
-        console.error("Failed to open Linear view container:", error);
+        logger.error("Failed to open the Linear view container", error);
       }
 
       // 注: 特定のビューを直接アクティブにする試みは避ける
@@ -176,21 +585,23 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(showIssueDetailViewCommand);
 
   // 初期フィルターの適用
-  // すべてのフィルターをクリアし、基本的なフィルターのみ設定（完了は非表示）
-  const defaultFilter = {
-    includeCompleted: false,
-  };
-  issueTreeProvider.setFilter(defaultFilter);
+  // 設定の既定のフィルター（未設定の場合は完了を非表示にするのみ）を適用する
+  issueTreeProvider.clearFilter(filterService.getDefaultFilter());
 
-  // キャッシュを事前にウォームアップ
+  // キャッシュを事前にウォームアップ（レート制限の残量が少ない場合は見送る）
   setTimeout(async () => {
-    try {
-      // 自分にアサインされたIssueのみを取得
-      await linearService.getIssues(false);
-      console.log("Cache warmed up with assigned issues");
-    } catch (e) {
-      console.error("Failed to warm up cache", e);
+    if (linearService.isBudgetLow) {
+      logger.info("Cache warmup skipped: Linear API budget is low");
+    } else {
+      try {
+        // 自分にアサインされたIssueのみを取得
+        await linearService.getIssues(false);
+        logger.info("Cache warmed up with assigned issues");
+      } catch (e) {
+        logger.error("Failed to warm up cache", e);
+      }
     }
+    syncScheduler.start();
   }, 500);
 
   // コマンドの登録
@@ -209,27 +620,28 @@ export async function activate(context: vscode.ExtensionContext) {
 
       if (!issueId) {
         vscode.window.showErrorMessage("イシューIDがありません");
-        console.error("無効なイシューオブジェクト:", issue);
+        logger.error("Invalid issue passed to showIssueDetail", undefined, {
+          issue: String(issue),
+        });
         return;
       }
 
-      console.log(`イシュー詳細を表示します: ${issueId}`);
+      logger.debug("Showing issue detail", { issueId });
 
       try {
         // ステップ1: まずイシュー詳細の更新を要求
         // これにより、WebViewが後で表示されたときにすぐにデータが表示される
         try {
-          console.log("先にイシュー詳細データを更新します");
           await issueDetailProvider.updateIssueDetail(issueId);
-          console.log("イシュー詳細データの更新に成功しました");
+          logger.debug("Updated issue detail", { issueId });
         } catch (dataErr) {
-          console.error("イシュー詳細データの更新に失敗:", dataErr);
+          logger.error("Failed to update issue detail", dataErr, { issueId });
           // 継続して表示を試みる
         }
 
         // ステップ2: Linearビューコンテナを開く
         await vscode.commands.executeCommand("workbench.view.extension.linear");
-        console.log("Linearビューコンテナを開きました");
+        logger.debug("Opened the Linear view container");
 
         // ステップ3: 少し待機してからIssueDetail表示を試みる
         await new Promise((resolve) => setTimeout(resolve, 300));
@@ -246,25 +658,27 @@ export async function activate(context: vscode.ExtensionContext) {
           for (const cmd of viewCommands) {
             try {
               await vscode.commands.executeCommand(cmd);
-              console.log(`コマンド ${cmd} でIssue Detailビューを開きました`);
+              logger.debug(`Opened the issue detail view with ${cmd}`);
               success = true;
               break;
             } catch (err) {
-              console.log(`コマンド ${cmd} の実行に失敗: ${err}`);
+              logger.debug(`View command ${cmd} failed: ${err}`);
             }
           }
 
           if (!success) {
-            console.log(
-              "標準コマンドでビューを開けませんでした、別の方法を試みます"
+            logger.warn(
+              "Could not open the issue detail view, updating it directly"
             );
 
             // VSCodeのビューの状態に関わらず、直接データ更新を再試行
             try {
               await issueDetailProvider.updateIssueDetail(issueId);
-              console.log("イシュー詳細の第2回更新に成功");
+              logger.debug("Updated issue detail on retry", { issueId });
             } catch (retryErr) {
-              console.error("イシュー詳細の第2回更新に失敗:", retryErr);
+              logger.error("Failed to update issue detail on retry", retryErr, {
+                issueId,
+              });
             }
 
             // ユーザーに明示的な指示を表示
@@ -274,18 +688,24 @@ export async function activate(context: vscode.ExtensionContext) {
             );
           }
         } catch (viewError) {
-          console.error("Issue Detailビューを開く際にエラーが発生:", viewError);
+          logger.error("Failed to open the issue detail view", viewError);
 
           // エラー発生時にもデータ更新を試みる
           try {
             await issueDetailProvider.updateIssueDetail(issueId);
-            console.log("エラー後のイシュー詳細更新に成功");
+            logger.debug("Updated issue detail after a view error", {
+              issueId,
+            });
           } catch (errAfterErr) {
-            console.error("エラー後のイシュー詳細更新に失敗:", errAfterErr);
+            logger.error(
+              "Failed to update issue detail after a view error",
+              errAfterErr,
+              { issueId }
+            );
           }
         }
       } catch (error) {
-        console.error("イシュー詳細の表示中にエラー:", error);
+        logger.error("Failed to show issue detail", error, { issueId });
         vscode.window.showErrorMessage(
           "イシュー詳細の表示中にエラーが発生しました"
         );
@@ -305,15 +725,15 @@ export async function activate(context: vscode.ExtensionContext) {
     ),
     vscode.commands.registerCommand(
       "linear.changeIssueStatus",
-      async (issue) => {
-        const team = await issue.team;
+      async (issue: IssueSnapshot) => {
+        const team = issue.team;
         if (!team) {
           vscode.window.showErrorMessage("Failed to get team information");
           return;
         }
 
         const states = await issueTreeProvider.getAvailableStates(team.id);
-        const currentState = await issue.state;
+        const currentState = issue.state;
 
         const items = states.map((state) => ({
           label: state.name,
@@ -329,17 +749,176 @@ export async function activate(context: vscode.ExtensionContext) {
 
         if (selected) {
           try {
-            await linearService.updateIssueState(issue.id, selected.state.id);
-            issueTreeProvider.refresh();
+            // 一覧の該当ノードはLinearServiceからの通知で即座に更新される
+            const result = await linearService.updateIssueState(
+              issue.id,
+              selected.state.id
+            );
             vscode.window.showInformationMessage(
-              `Status updated to ${selected.label}`
+              result
+                ? `Status updated to ${selected.label}`
+                : `Status change to ${selected.label} will be sent when Linear is reachable`
             );
           } catch (error) {
-            vscode.window.showErrorMessage(`Failed to update status: ${error}`);
+            vscode.window.showErrorMessage(
+              `Failed to update status of ${issue.identifier}, change was reverted: ${error}`
+            );
           }
         }
       }
     ),
+    vscode.commands.registerCommand("linear.showPendingChanges", async () => {
+      const pending = mutationQueue.getAll();
+      if (pending.length === 0) {
+        vscode.window.showInformationMessage("No pending changes");
+        return;
+      }
+
+      const retryItem: vscode.QuickPickItem & { mutation?: PendingMutation } = {
+        label: "$(sync) Retry now",
+        description: `${pending.length} pending change(s)`,
+      };
+      const items = pending.map((mutation) => ({
+        label: `${
+          mutation.conflict ? "$(warning)" : "$(clock)"
+        } ${describeMutation(mutation)}`,
+        description: new Date(mutation.createdAt).toLocaleString(),
+        detail: mutation.conflictReason,
+        mutation,
+      }));
+
+      const selected = await vscode.window.showQuickPick(
+        [retryItem, ...items],
+        { placeHolder: "Pending changes" }
+      );
+      if (!selected) {
+        return;
+      }
+
+      const mutation = selected.mutation;
+      if (mutation?.conflict) {
+        await resolveConflict(mutation);
+        return;
+      }
+      if (mutation) {
+        const confirm = await vscode.window.showWarningMessage(
+          `Discard "${describeMutation(mutation)}"?`,
+          "Discard"
+        );
+        if (confirm) {
+          await linearService.resolveConflict(mutation.id, "discard");
+        }
+        return;
+      }
+
+      try {
+        await linearService.replayPendingMutations();
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to send pending changes: ${error}`
+        );
+      }
+    }),
+    vscode.commands.registerCommand("linear.showDiagnostics", async () => {
+      const budget = linearService.getRateLimitBudget();
+      const lines = [
+        "# Linear Diagnostics",
+        "",
+        "## API",
+        "",
+        `- Connection: ${linearService.isOffline ? "offline" : "online"}`,
+        `- Circuit breaker: ${linearService.circuitState}`,
+        `- Pending changes: ${mutationQueue.size}`,
+        "",
+        "## Rate limit budget",
+        "",
+        describeBudget("Requests", budget.requests),
+        describeBudget("Complexity", budget.complexity),
+        `- Last request complexity: ${budget.lastComplexity ?? "unknown"}`,
+        `- Last observed: ${
+          budget.observedAt
+            ? new Date(budget.observedAt).toLocaleString()
+            : "never"
+        }`,
+        `- Background work: ${
+          linearService.isBudgetLow ? "throttled (budget is low)" : "normal"
+        }`,
+        "",
+        ...describeCache(cacheService.getMetrics()),
+      ];
+      const document = await vscode.workspace.openTextDocument({
+        content: lines.join("\n"),
+        language: "markdown",
+      });
+      await vscode.window.showTextDocument(document, { preview: true });
+    }),
+    vscode.commands.registerCommand("linear.inspectCache", async () => {
+      await vscode.commands.executeCommand(
+        "setContext",
+        "linear.cacheInspectorVisible",
+        true
+      );
+      refreshCacheInspector();
+      await vscode.commands.executeCommand("linearCache.focus");
+    }),
+    vscode.commands.registerCommand("linear.refreshCacheInspector", () =>
+      refreshCacheInspector()
+    ),
+    vscode.commands.registerCommand(
+      "linear.invalidateCacheEntry",
+      (node?: CacheInspectorNode) => {
+        if (node?.type !== "entry") {
+          return;
+        }
+        logger.info("Cache entry invalidated by user", {
+          cacheKey: node.entry.key,
+        });
+        cacheService.delete(node.entry.key);
+        afterCacheInvalidated(node.entry.key);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "linear.invalidateCachePrefix",
+      async (node?: CacheInspectorNode) => {
+        // ビューのタイトルから実行した場合はプレフィックスを入力してもらう
+        const prefix =
+          node?.type === "namespace"
+            ? node.prefix
+            : await vscode.window.showInputBox({
+                prompt: "Invalidate all cache keys starting with",
+                placeHolder: "issues:",
+                validateInput: (value) =>
+                  value ? undefined : "Enter a key prefix",
+              });
+        if (!prefix) {
+          return;
+        }
+        logger.info("Cache prefix invalidated by user", { prefix });
+        await linearService.invalidateCache(prefix);
+        afterCacheInvalidated(prefix);
+      }
+    ),
+    vscode.commands.registerCommand("linear.clearCacheAndResync", async () => {
+      const choice = await vscode.window.showWarningMessage(
+        "Clear the entire Linear cache and fetch everything again?",
+        { modal: true },
+        "Clear and Resync"
+      );
+      if (!choice) {
+        return;
+      }
+      logger.info("Cache cleared by user");
+      linearService.clearCache();
+      issueTreeProvider.refresh();
+      await issueDetailProvider.refresh();
+      refreshCacheInspector();
+    }),
+    vscode.commands.registerCommand("linear.nextPage", () => {
+      issueTreeProvider.nextPage();
+    }),
+    vscode.commands.registerCommand("linear.previousPage", () => {
+      issueTreeProvider.previousPage();
+    }),
     vscode.commands.registerCommand("linear.groupByStatus", () => {
       issueTreeProvider.setGroupBy("status");
     }),
@@ -433,6 +1012,86 @@ export async function activate(context: vscode.ExtensionContext) {
         });
       }
     }),
+    vscode.commands.registerCommand("linear.filterByScope", async () => {
+      const scopeItems: { label: string; scope: IssueScopeType }[] = [
+        { label: "My issues", scope: "assignedToMe" },
+        { label: "Team issues", scope: "team" },
+        { label: "Unassigned", scope: "unassigned" },
+        { label: "Created by me", scope: "createdByMe" },
+        { label: "Subscribed by me", scope: "subscribedByMe" },
+        { label: "Specific users", scope: "users" },
+      ];
+
+      const selectedScope = await vscode.window.showQuickPick(scopeItems, {
+        placeHolder: "Select which issues to show",
+      });
+
+      if (!selectedScope) return;
+
+      if (selectedScope.scope === "team") {
+        const teams = await linearService.getTeams();
+        const selectedTeams = await vscode.window.showQuickPick(
+          teams.map((team) => ({
+            label: team.name,
+            description: team.key,
+            picked: false,
+            team: team,
+          })),
+          {
+            placeHolder: "Select teams (leave empty for all teams)",
+            canPickMany: true,
+          }
+        );
+
+        if (!selectedTeams) return;
+
+        issueTreeProvider.setFilter({
+          scope: {
+            type: "team",
+            teamIds: selectedTeams.map((t) => t.team.id),
+          },
+        });
+        return;
+      }
+
+      if (selectedScope.scope === "users") {
+        const teams = await linearService.getTeams();
+        const selectedTeam = await vscode.window.showQuickPick(
+          teams.map((team) => ({
+            label: team.name,
+            description: team.key,
+            team: team,
+          })),
+          { placeHolder: "Select team to choose members from" }
+        );
+
+        if (!selectedTeam) return;
+
+        const members = await linearService.getTeamMembers(
+          selectedTeam.team.id
+        );
+        const selectedMembers = await vscode.window.showQuickPick(
+          members.map((member) => ({
+            label: member.name,
+            picked: false,
+            id: member.id,
+          })),
+          { placeHolder: "Select users", canPickMany: true }
+        );
+
+        if (!selectedMembers?.length) return;
+
+        issueTreeProvider.setFilter({
+          scope: {
+            type: "users",
+            userIds: selectedMembers.map((m) => m.id),
+          },
+        });
+        return;
+      }
+
+      issueTreeProvider.setFilter({ scope: { type: selectedScope.scope } });
+    }),
     vscode.commands.registerCommand("linear.clearFilters", () => {
       issueTreeProvider.clearFilter();
     }),
@@ -485,7 +1144,11 @@ export async function activate(context: vscode.ExtensionContext) {
       );
 
       if (selected) {
-        issueTreeProvider.setFilter(selected.filter.criteria);
+        // 範囲が保存されていないフィルターは既定の範囲に戻す
+        issueTreeProvider.setFilter({
+          scope: undefined,
+          ...selected.filter.criteria,
+        });
         vscode.window.showInformationMessage(
           `Filter "${selected.label}" has been loaded`
         );
@@ -544,17 +1207,12 @@ export async function activate(context: vscode.ExtensionContext) {
             return;
           }
 
-          const items = await Promise.all(
-            issues.map(async (issue) => {
-              const state = await issue.state;
-              return {
-                label: `${issue.identifier}: ${issue.title}`,
-                description: `Status: ${state?.name || "Unknown"}`,
-                detail: issue.description,
-                issue: issue,
-              };
-            })
-          );
+          const items = issues.map((issue) => ({
+            label: `${issue.identifier}: ${issue.title}`,
+            description: `Status: ${issue.state?.name || "Unknown"}`,
+            detail: issue.description ?? undefined,
+            issue: issue,
+          }));
 
           const selected = await vscode.window.showQuickPick(items, {
             placeHolder: "Select an issue to view",
@@ -628,17 +1286,12 @@ export async function activate(context: vscode.ExtensionContext) {
           return;
         }
 
-        const items = await Promise.all(
-          issues.map(async (issue) => {
-            const state = await issue.state;
-            return {
-              label: `${issue.identifier}: ${issue.title}`,
-              description: `Status: ${state?.name || "Unknown"}`,
-              detail: issue.description,
-              issue: issue,
-            };
-          })
-        );
+        const items = issues.map((issue) => ({
+          label: `${issue.identifier}: ${issue.title}`,
+          description: `Status: ${issue.state?.name || "Unknown"}`,
+          detail: issue.description ?? undefined,
+          issue: issue,
+        }));
 
         const selected = await vscode.window.showQuickPick(items, {
           placeHolder: "Select an issue to view",
@@ -678,17 +1331,55 @@ export async function activate(context: vscode.ExtensionContext) {
           await vscode.commands.executeCommand(
             "workbench.view.extension.linear"
           );
-          console.log("Tree selection: Activated Linear view container");
+          logger.debug("Tree selection: opened the Linear view container");
         } catch (error) {
-          console.log("Tree selection: Failed to open Linear container", error);
+          logger.error(
+            "Tree selection: failed to open the Linear view container",
+            error
+          );
         }
 
         // イシュー詳細を直接更新
-        console.log("Tree selection: Updating issue detail");
+        logger.debug("Tree selection: updating issue detail", {
+          issueId: selectedItem.id,
+        });
         await issueDetailProvider.updateIssueDetail(selectedItem.id);
       }
     }
   });
+
+  // ワークスペースを切り替えた場合、チームやユーザーを指定したフィルターは使えないため既定に戻す
+  context.subscriptions.push(
+    accountService.onDidChangeActiveAccount(() => {
+      issueTreeProvider.clearFilter(filterService.getDefaultFilter());
+    })
+  );
+
+  // 設定の変更をウィンドウの再読み込みなしで反映する
+  context.subscriptions.push(
+    configurationService.onDidChange((change) => {
+      if (change.defaultFilter) {
+        issueTreeProvider.clearFilter(filterService.getDefaultFilter());
+      }
+      if (change.cacheStorage) {
+        cacheService.setStorage(createCacheStorage(context));
+      }
+      if (change.apiUrl) {
+        // 接続先が変わったため、クライアントを作り直してキャッシュを破棄する（一覧はreconnectの通知で再取得される）
+        linearService.reconnect();
+        issueDetailProvider.refresh();
+        return;
+      }
+      if (change.issueFetching) {
+        // 取得件数の上限などが変わったため、取得済みの一覧を破棄して取り直す
+        linearService.invalidateCache("issues:");
+        issueTreeProvider.refresh();
+        issueDetailProvider.refresh();
+      }
+    })
+  );
+
+  return { linearService, cacheService, mutationQueue };
 }
 
 export function deactivate() {}
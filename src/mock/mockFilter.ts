@@ -0,0 +1,85 @@
+/**
+ * LinearのGraphQLフィルター（IssueFilterなど）をメモリ上のオブジェクトに適用する
+ * 拡張機能が使用する比較演算子と、and / or / some / every による組み合わせに対応する
+ */
+
+type Filter = Record<string, any>;
+
+const COMPARATORS: Record<string, (value: any, operand: any) => boolean> = {
+  eq: (value, operand) => normalize(value) === normalize(operand),
+  neq: (value, operand) => normalize(value) !== normalize(operand),
+  in: (value, operand: any[]) =>
+    operand.map(normalize).includes(normalize(value)),
+  nin: (value, operand: any[]) =>
+    !operand.map(normalize).includes(normalize(value)),
+  gt: (value, operand) => value != null && compare(value, operand) > 0,
+  gte: (value, operand) => value != null && compare(value, operand) >= 0,
+  lt: (value, operand) => value != null && compare(value, operand) < 0,
+  lte: (value, operand) => value != null && compare(value, operand) <= 0,
+  null: (value, operand: boolean) => (value == null) === operand,
+  contains: (value, operand: string) =>
+    typeof value === "string" && value.includes(operand),
+  containsIgnoreCase: (value, operand: string) =>
+    typeof value === "string" &&
+    value.toLowerCase().includes(operand.toLowerCase()),
+  notContains: (value, operand: string) =>
+    typeof value !== "string" || !value.includes(operand),
+  startsWith: (value, operand: string) =>
+    typeof value === "string" && value.startsWith(operand),
+  endsWith: (value, operand: string) =>
+    typeof value === "string" && value.endsWith(operand),
+};
+
+function normalize(value: any): any {
+  return value === undefined ? null : value;
+}
+
+/**
+ * 日付の文字列は時刻として、それ以外はそのまま比較する
+ */
+function compare(value: any, operand: any): number {
+  if (typeof value === "string" && typeof operand === "string") {
+    const a = Date.parse(value);
+    const b = Date.parse(operand);
+    if (!isNaN(a) && !isNaN(b)) {
+      return a - b;
+    }
+    return value.localeCompare(operand);
+  }
+  return value < operand ? -1 : value > operand ? 1 : 0;
+}
+
+/**
+ * オブジェクトがフィルター条件をすべて満たすかどうかを返す
+ * @param target 関連データを展開済みのオブジェクト
+ * @param filter GraphQLのフィルター条件（未指定の場合はすべて一致）
+ */
+export function matchesFilter(target: any, filter?: Filter | null): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition === undefined) {
+      return true;
+    }
+    if (key === "and") {
+      return (condition as Filter[]).every((f) => matchesFilter(target, f));
+    }
+    if (key === "or") {
+      return (condition as Filter[]).some((f) => matchesFilter(target, f));
+    }
+    if (key === "some" || key === "every") {
+      const items: any[] = Array.isArray(target) ? target : [];
+      return key === "some"
+        ? items.some((item) => matchesFilter(item, condition))
+        : items.every((item) => matchesFilter(item, condition));
+    }
+    if (key in COMPARATORS) {
+      return COMPARATORS[key](target, condition);
+    }
+
+    // 関連が存在しない場合は undefined に対して比較演算子を評価する
+    return matchesFilter(target?.[key], condition);
+  });
+}
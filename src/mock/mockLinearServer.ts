@@ -0,0 +1,347 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { matchesFilter } from "./mockFilter";
+import { MockLinearStore } from "./mockLinearStore";
+
+/**
+ * 開発・テスト用のLinear APIのモックサーバー
+ * GraphQLのドキュメントは解析せず、操作名ごとにSDKと拡張機能が期待する形のレスポンスを返す
+ * linear.apiUrl に http://127.0.0.1:<port>/graphql を設定すると、拡張機能の接続先になる
+ */
+
+export interface MockLinearServerOptions {
+  // 待ち受けるポート（0 の場合は空いているポート）
+  port?: number;
+  // 初期データを差し替える場合に指定する
+  store?: MockLinearStore;
+}
+
+export interface MockLinearServer {
+  // GraphQLエンドポイントのURL
+  url: string;
+  store: MockLinearStore;
+  // 以降のレスポンスで返すレート制限の残量を変更する
+  setRequestsRemaining(remaining: number): void;
+  close(): Promise<void>;
+}
+
+interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, any>;
+}
+
+type Resolver = (store: MockLinearStore, variables: Record<string, any>) => any;
+
+const DEFAULT_PAGE_SIZE = 50;
+// 1時間あたりのリクエスト数の上限（APIキーの場合の実際のAPIと同じ値）
+const REQUESTS_LIMIT = 1500;
+const RATE_LIMIT_WINDOW = 60 * 60 * 1000;
+
+/**
+ * 配列をRelay形式のコネクションに変換する
+ * カーソルには要素のIDを使う
+ */
+function toConnection<T extends { id: string }>(
+  items: T[],
+  variables: Record<string, any> = {}
+): { nodes: T[]; pageInfo: Record<string, unknown> } {
+  const first: number = variables.first ?? DEFAULT_PAGE_SIZE;
+  const start = variables.after
+    ? items.findIndex((item) => item.id === variables.after) + 1
+    : 0;
+  const nodes = items.slice(start, start + first);
+  return {
+    nodes,
+    pageInfo: {
+      hasNextPage: start + first < items.length,
+      hasPreviousPage: start > 0,
+      startCursor: nodes[0]?.id ?? null,
+      endCursor: nodes[nodes.length - 1]?.id ?? null,
+    },
+  };
+}
+
+function notFound(entity: string, id: string): never {
+  throw new Error(`Entity not found: ${entity} - ${id}`);
+}
+
+function findIssues(store: MockLinearStore, variables: Record<string, any>) {
+  const issues = store.issues
+    .filter((issue) => variables.includeArchived || !issue.archivedAt)
+    .filter((issue) =>
+      matchesFilter(store.toFilterable(issue), variables.filter)
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map((issue) => ({ ...store.toIssueDto(issue), reactions: [] }));
+  return toConnection(issues, variables);
+}
+
+function getIssueDto(store: MockLinearStore, id: string) {
+  const issue = store.getIssue(id) ?? notFound("Issue", id);
+  return { ...store.toIssueDto(issue), reactions: [] };
+}
+
+function findComments(store: MockLinearStore, variables: Record<string, any>) {
+  const comments = store.issues
+    .flatMap((issue) => store.getComments(issue.id))
+    .filter((comment) =>
+      matchesFilter(
+        { ...comment, issue: { id: comment.issueId } },
+        variables.filter
+      )
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((comment) => ({
+      id: comment.id,
+      body: comment.body,
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+      issue: { id: comment.issueId },
+      user: { id: comment.userId },
+      reactions: [],
+    }));
+  return toConnection(comments, variables);
+}
+
+function userDto(store: MockLinearStore, id: string) {
+  const user = store.getUser(id) ?? notFound("User", id);
+  return { ...user, active: true, isMe: id === store.viewer.id };
+}
+
+/**
+ * 操作名ごとのリゾルバー
+ * 拡張機能の手書きクエリ（Issues, Issue）とSDKが発行するクエリの両方に対応する
+ */
+const RESOLVERS: Record<string, Resolver> = {
+  Issues: (store, variables) => ({ issues: findIssues(store, variables) }),
+  issues: (store, variables) => ({ issues: findIssues(store, variables) }),
+  Issue: (store, { id }) => ({
+    issue: store.getIssue(id) ? getIssueDto(store, id) : null,
+  }),
+  issue: (store, { id }) => ({ issue: getIssueDto(store, id) }),
+  viewer: (store) => ({ viewer: userDto(store, store.viewer.id) }),
+  user: (store, { id }) => ({ user: userDto(store, id) }),
+  organization: (store) => ({
+    organization: { ...store.organization, projectStatuses: [] },
+  }),
+  teams: (store, variables) => ({
+    teams: toConnection(
+      store.teams.filter((team) => matchesFilter(team, variables.filter)),
+      variables
+    ),
+  }),
+  team: (store, { id }) => ({
+    team: store.getTeam(id) ?? notFound("Team", id),
+  }),
+  team_members: (store, variables) => ({
+    team: {
+      members: toConnection(
+        store
+          .getTeamMembers(variables.id)
+          .map((member) => userDto(store, member.id)),
+        variables
+      ),
+    },
+  }),
+  workflowStates: (store, variables) => ({
+    workflowStates: toConnection(
+      store
+        .getStates()
+        .filter((state) =>
+          matchesFilter(
+            { ...state, team: { id: state.teamId } },
+            variables.filter
+          )
+        ),
+      variables
+    ),
+  }),
+  projects: (store, variables) => ({
+    projects: toConnection(
+      store.projects.filter((project) =>
+        matchesFilter(project, variables.filter)
+      ),
+      variables
+    ),
+  }),
+  project: (store, { id }) => ({
+    project: store.getProject(id) ?? notFound("Project", id),
+  }),
+  issueLabels: (store, variables) => ({
+    issueLabels: toConnection(
+      store.labels.filter((label) => matchesFilter(label, variables.filter)),
+      variables
+    ),
+  }),
+  comments: (store, variables) => ({
+    comments: findComments(store, variables),
+  }),
+  createComment: (store, { input }) => ({
+    commentCreate: {
+      success: true,
+      lastSyncId: Date.now(),
+      comment: { id: store.createComment(input).id },
+    },
+  }),
+  createIssue: (store, { input }) => ({
+    issueCreate: {
+      success: true,
+      lastSyncId: Date.now(),
+      issue: { id: store.createIssue(input).id },
+    },
+  }),
+  updateIssue: (store, { id, input }) => ({
+    issueUpdate: {
+      success: true,
+      lastSyncId: Date.now(),
+      issue: { id: store.updateIssue(id, input).id },
+    },
+  }),
+};
+
+/**
+ * GraphQLドキュメントから最初の操作名を取り出す
+ */
+function getOperationName(query: string): string | undefined {
+  return /\b(?:query|mutation)\s+(\w+)/.exec(query)?.[1];
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+async function handleRequest(
+  store: MockLinearStore,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  if (req.method !== "POST") {
+    sendJson(res, 405, { errors: [{ message: "Only POST is supported" }] });
+    return;
+  }
+
+  if (!req.headers.authorization) {
+    sendJson(res, 401, {
+      errors: [
+        {
+          message: "Authentication required, not authenticated",
+          extensions: {
+            type: "authentication error",
+            userPresentableMessage: "Authentication required",
+          },
+        },
+      ],
+    });
+    return;
+  }
+
+  let request: GraphQLRequest;
+  try {
+    request = JSON.parse(await readBody(req));
+  } catch {
+    sendJson(res, 400, { errors: [{ message: "Invalid JSON body" }] });
+    return;
+  }
+
+  const operationName = getOperationName(request.query ?? "");
+  const resolver = operationName ? RESOLVERS[operationName] : undefined;
+  if (!resolver) {
+    sendJson(res, 400, {
+      errors: [
+        {
+          message: `Operation ${
+            operationName ?? "(anonymous)"
+          } is not supported by the mock server`,
+          extensions: { type: "graphql error" },
+        },
+      ],
+    });
+    return;
+  }
+
+  try {
+    sendJson(res, 200, { data: resolver(store, request.variables ?? {}) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    sendJson(res, 200, {
+      data: null,
+      errors: [
+        {
+          message,
+          path: [operationName],
+          extensions: {
+            type: "invalid input",
+            userPresentableMessage: message,
+          },
+        },
+      ],
+    });
+  }
+}
+
+/**
+ * モックサーバーを起動する
+ * @returns エンドポイントのURLと、データを直接操作するためのストア
+ */
+export function startMockLinearServer(
+  options: MockLinearServerOptions = {}
+): Promise<MockLinearServer> {
+  const store = options.store ?? new MockLinearStore();
+  // 実際のAPIと同じく、リクエストごとにレート制限の残量をヘッダーで返す
+  let requestsRemaining = REQUESTS_LIMIT;
+  let resetAt = Date.now() + RATE_LIMIT_WINDOW;
+  const server = http.createServer((req, res) => {
+    if (Date.now() >= resetAt) {
+      requestsRemaining = REQUESTS_LIMIT;
+      resetAt = Date.now() + RATE_LIMIT_WINDOW;
+    }
+    requestsRemaining = Math.max(0, requestsRemaining - 1);
+    res.setHeader("X-RateLimit-Requests-Limit", String(REQUESTS_LIMIT));
+    res.setHeader("X-RateLimit-Requests-Remaining", String(requestsRemaining));
+    res.setHeader("X-RateLimit-Requests-Reset", String(resetAt));
+
+    handleRequest(store, req, res).catch((error) =>
+      sendJson(res, 500, { errors: [{ message: String(error) }] })
+    );
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/graphql`,
+        store,
+        setRequestsRemaining: (remaining) => {
+          requestsRemaining = remaining;
+        },
+        close: () =>
+          new Promise<void>((resolveClose, rejectClose) =>
+            server.close((err) => (err ? rejectClose(err) : resolveClose()))
+          ),
+      });
+    });
+  });
+}
+
+// node out/src/mock/mockLinearServer.js で単体で起動できるようにする
+if (require.main === module) {
+  const port = Number(process.env.LINEAR_MOCK_PORT ?? 4000);
+  startMockLinearServer({ port })
+    .then(({ url }) => console.log(`Mock Linear API listening on ${url}`))
+    .catch((error) => {
+      console.error("Failed to start mock Linear API:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,509 @@
+import {
+  IssueDto,
+  LabelDto,
+  ProjectDto,
+  TeamDto,
+  UserDto,
+  WorkflowStateDto,
+} from "../services/graphql/issueQueries";
+
+/**
+ * モックサーバー内で保持するデータ
+ * 関連はIDで持ち、レスポンスを返すときにAPIと同じ形に組み立てる
+ */
+export interface MockUser extends UserDto {
+  email: string;
+}
+
+export interface MockWorkflowState extends WorkflowStateDto {
+  teamId: string;
+}
+
+export interface MockIssue {
+  id: string;
+  number: number;
+  title: string;
+  description?: string;
+  priority: number;
+  teamId: string;
+  stateId: string;
+  assigneeId?: string;
+  creatorId: string;
+  projectId?: string;
+  labelIds: string[];
+  subscriberIds: string[];
+  createdAt: string;
+  updatedAt: string;
+  archivedAt?: string;
+  completedAt?: string;
+  canceledAt?: string;
+  dueDate?: string;
+  estimate?: number;
+}
+
+export interface MockComment {
+  id: string;
+  issueId: string;
+  userId: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockLinearData {
+  organization: { id: string; name: string; urlKey: string };
+  viewerId: string;
+  users: MockUser[];
+  teams: TeamDto[];
+  states: MockWorkflowState[];
+  projects: ProjectDto[];
+  labels: LabelDto[];
+  issues: MockIssue[];
+  comments: MockComment[];
+}
+
+const PRIORITY_LABELS = ["No priority", "Urgent", "High", "Medium", "Low"];
+
+/**
+ * 開発・テスト用の初期データを作成する
+ * 日付は呼び出し時刻を基準にするため、毎回同じ相対関係になる
+ */
+export function createSeedData(): MockLinearData {
+  const now = Date.now();
+  const daysAgo = (days: number) =>
+    new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const states = (teamId: string, prefix: string): MockWorkflowState[] => [
+    {
+      id: `${prefix}-backlog`,
+      name: "Backlog",
+      color: "#bec2c8",
+      type: "backlog",
+      position: 0,
+      teamId,
+    },
+    {
+      id: `${prefix}-todo`,
+      name: "Todo",
+      color: "#e2e2e2",
+      type: "unstarted",
+      position: 1,
+      teamId,
+    },
+    {
+      id: `${prefix}-in-progress`,
+      name: "In Progress",
+      color: "#f2c94c",
+      type: "started",
+      position: 2,
+      teamId,
+    },
+    {
+      id: `${prefix}-done`,
+      name: "Done",
+      color: "#5e6ad2",
+      type: "completed",
+      position: 3,
+      teamId,
+    },
+    {
+      id: `${prefix}-canceled`,
+      name: "Canceled",
+      color: "#95a2b3",
+      type: "canceled",
+      position: 4,
+      teamId,
+    },
+  ];
+
+  const issue = (
+    partial: Partial<MockIssue> &
+      Pick<MockIssue, "id" | "number" | "title" | "teamId" | "stateId">
+  ): MockIssue => ({
+    priority: 0,
+    creatorId: "user-me",
+    labelIds: [],
+    subscriberIds: [],
+    createdAt: daysAgo(30),
+    updatedAt: daysAgo(1),
+    ...partial,
+  });
+
+  return {
+    organization: { id: "org-mock", name: "Mock Organization", urlKey: "mock" },
+    viewerId: "user-me",
+    users: [
+      {
+        id: "user-me",
+        name: "Mock User",
+        displayName: "me",
+        email: "me@example.com",
+        avatarUrl: null,
+      },
+      {
+        id: "user-alice",
+        name: "Alice Example",
+        displayName: "alice",
+        email: "alice@example.com",
+        avatarUrl: null,
+      },
+      {
+        id: "user-bob",
+        name: "Bob Example",
+        displayName: "bob",
+        email: "bob@example.com",
+        avatarUrl: null,
+      },
+    ],
+    teams: [
+      { id: "team-eng", key: "ENG", name: "Engineering" },
+      { id: "team-des", key: "DES", name: "Design" },
+    ],
+    states: [...states("team-eng", "eng"), ...states("team-des", "des")],
+    projects: [
+      { id: "project-web", name: "Web App", color: "#4ea7fc", icon: null },
+      {
+        id: "project-mobile",
+        name: "Mobile App",
+        color: "#f2994a",
+        icon: null,
+      },
+    ],
+    labels: [
+      { id: "label-bug", name: "Bug", color: "#eb5757" },
+      { id: "label-feature", name: "Feature", color: "#bb87fc" },
+    ],
+    issues: [
+      issue({
+        id: "issue-eng-1",
+        number: 1,
+        title: "Fix login redirect loop",
+        teamId: "team-eng",
+        stateId: "eng-in-progress",
+        assigneeId: "user-me",
+        projectId: "project-web",
+        priority: 2,
+        labelIds: ["label-bug"],
+        subscriberIds: ["user-me"],
+        description:
+          "Users are redirected back to the login page after signing in.",
+      }),
+      issue({
+        id: "issue-eng-2",
+        number: 2,
+        title: "Add dark mode toggle",
+        teamId: "team-eng",
+        stateId: "eng-todo",
+        assigneeId: "user-me",
+        projectId: "project-web",
+        priority: 3,
+        labelIds: ["label-feature"],
+        dueDate: daysAgo(-7).slice(0, 10),
+      }),
+      issue({
+        id: "issue-eng-3",
+        number: 3,
+        title: "Crash when opening settings",
+        teamId: "team-eng",
+        stateId: "eng-backlog",
+        assigneeId: "user-alice",
+        creatorId: "user-alice",
+        projectId: "project-mobile",
+        priority: 1,
+        labelIds: ["label-bug"],
+        subscriberIds: ["user-me"],
+      }),
+      issue({
+        id: "issue-eng-4",
+        number: 4,
+        title: "Upgrade build tooling",
+        teamId: "team-eng",
+        stateId: "eng-todo",
+        priority: 4,
+      }),
+      issue({
+        id: "issue-eng-5",
+        number: 5,
+        title: "Remove legacy API client",
+        teamId: "team-eng",
+        stateId: "eng-done",
+        assigneeId: "user-me",
+        completedAt: daysAgo(2),
+      }),
+      issue({
+        id: "issue-des-1",
+        number: 1,
+        title: "Design onboarding flow",
+        teamId: "team-des",
+        stateId: "des-in-progress",
+        assigneeId: "user-bob",
+        creatorId: "user-bob",
+        projectId: "project-mobile",
+        priority: 2,
+      }),
+      issue({
+        id: "issue-des-2",
+        number: 2,
+        title: "Refresh icon set",
+        teamId: "team-des",
+        stateId: "des-todo",
+        assigneeId: "user-me",
+        priority: 0,
+      }),
+    ],
+    comments: [
+      {
+        id: "comment-1",
+        issueId: "issue-eng-1",
+        userId: "user-alice",
+        body: "I can reproduce this on **Safari** only.",
+        createdAt: daysAgo(3),
+        updatedAt: daysAgo(3),
+      },
+      {
+        id: "comment-2",
+        issueId: "issue-eng-1",
+        userId: "user-me",
+        body: "Looking into it.",
+        createdAt: daysAgo(2),
+        updatedAt: daysAgo(2),
+      },
+    ],
+  };
+}
+
+/**
+ * Linearのデータをメモリ上に保持し、APIと同じ形で読み書きする
+ * モックGraphQLサーバーとインメモリのバックエンドで共有する
+ */
+export class MockLinearStore {
+  private data: MockLinearData;
+  private nextId = 1;
+
+  constructor(data: MockLinearData = createSeedData()) {
+    this.data = data;
+  }
+
+  get viewer(): MockUser {
+    return this.getUser(this.data.viewerId)!;
+  }
+
+  get organization(): MockLinearData["organization"] {
+    return this.data.organization;
+  }
+
+  get teams(): TeamDto[] {
+    return this.data.teams;
+  }
+
+  get projects(): ProjectDto[] {
+    return this.data.projects;
+  }
+
+  get labels(): LabelDto[] {
+    return this.data.labels;
+  }
+
+  get issues(): MockIssue[] {
+    return this.data.issues;
+  }
+
+  getUser(id: string | undefined): MockUser | undefined {
+    return this.data.users.find((u) => u.id === id);
+  }
+
+  getTeam(id: string): TeamDto | undefined {
+    return this.data.teams.find((t) => t.id === id);
+  }
+
+  /**
+   * チームのメンバーを返す（モックでは全ユーザーが全チームに所属する）
+   */
+  getTeamMembers(teamId: string): MockUser[] {
+    return this.getTeam(teamId) ? this.data.users : [];
+  }
+
+  getStates(teamId?: string): MockWorkflowState[] {
+    return this.data.states.filter((s) => !teamId || s.teamId === teamId);
+  }
+
+  getProject(id: string | undefined): ProjectDto | undefined {
+    return this.data.projects.find((p) => p.id === id);
+  }
+
+  getIssue(id: string): MockIssue | undefined {
+    return this.data.issues.find(
+      (i) => i.id === id || this.getIdentifier(i) === id
+    );
+  }
+
+  getComments(issueId: string): MockComment[] {
+    return this.data.comments.filter((c) => c.issueId === issueId);
+  }
+
+  createIssue(input: {
+    teamId: string;
+    title: string;
+    description?: string;
+    assigneeId?: string;
+    stateId?: string;
+    priority?: number;
+  }): MockIssue {
+    const team = this.getTeam(input.teamId);
+    if (!team) {
+      throw new Error(`Team ${input.teamId} not found`);
+    }
+    const now = new Date().toISOString();
+    const number =
+      Math.max(
+        0,
+        ...this.data.issues
+          .filter((i) => i.teamId === team.id)
+          .map((i) => i.number)
+      ) + 1;
+    const issue: MockIssue = {
+      id: this.generateId("issue"),
+      number,
+      title: input.title,
+      description: input.description,
+      priority: input.priority ?? 0,
+      teamId: team.id,
+      stateId: input.stateId ?? this.getStates(team.id)[0].id,
+      assigneeId: input.assigneeId,
+      creatorId: this.data.viewerId,
+      labelIds: [],
+      subscriberIds: [this.data.viewerId],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.data.issues.push(issue);
+    return issue;
+  }
+
+  updateIssue(
+    id: string,
+    input: {
+      title?: string;
+      description?: string;
+      assigneeId?: string | null;
+      stateId?: string;
+      priority?: number;
+      projectId?: string | null;
+    }
+  ): MockIssue {
+    const issue = this.getIssue(id);
+    if (!issue) {
+      throw new Error(`Issue ${id} not found`);
+    }
+
+    const now = new Date().toISOString();
+    const changes = Object.fromEntries(
+      Object.entries(input).filter(([, value]) => value !== undefined)
+    ) as Partial<MockIssue>;
+    Object.assign(issue, changes, { updatedAt: now });
+
+    if (input.stateId) {
+      const type = this.data.states.find((s) => s.id === input.stateId)?.type;
+      issue.completedAt = type === "completed" ? now : undefined;
+      issue.canceledAt = type === "canceled" ? now : undefined;
+    }
+    return issue;
+  }
+
+  createComment(input: { issueId: string; body: string }): MockComment {
+    const issue = this.getIssue(input.issueId);
+    if (!issue) {
+      throw new Error(`Issue ${input.issueId} not found`);
+    }
+    const now = new Date().toISOString();
+    const comment: MockComment = {
+      id: this.generateId("comment"),
+      issueId: issue.id,
+      userId: this.data.viewerId,
+      body: input.body,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.data.comments.push(comment);
+    issue.updatedAt = now;
+    return comment;
+  }
+
+  getIdentifier(issue: MockIssue): string {
+    return `${this.getTeam(issue.teamId)?.key ?? "ISSUE"}-${issue.number}`;
+  }
+
+  /**
+   * APIのレスポンスと同じ形のIssueを組み立てる
+   */
+  toIssueDto(issue: MockIssue): IssueDto {
+    const state = this.data.states.find((s) => s.id === issue.stateId)!;
+    const identifier = this.getIdentifier(issue);
+    const toUser = (id?: string): UserDto | null => {
+      const user = this.getUser(id);
+      return user
+        ? {
+            id: user.id,
+            name: user.name,
+            displayName: user.displayName,
+            avatarUrl: user.avatarUrl,
+          }
+        : null;
+    };
+
+    return {
+      id: issue.id,
+      identifier,
+      title: issue.title,
+      description: issue.description ?? null,
+      priority: issue.priority,
+      priorityLabel: PRIORITY_LABELS[issue.priority] ?? "No priority",
+      url: `https://linear.app/${this.data.organization.urlKey}/issue/${identifier}`,
+      createdAt: issue.createdAt,
+      updatedAt: issue.updatedAt,
+      archivedAt: issue.archivedAt ?? null,
+      completedAt: issue.completedAt ?? null,
+      canceledAt: issue.canceledAt ?? null,
+      dueDate: issue.dueDate ?? null,
+      estimate: issue.estimate ?? null,
+      state: {
+        id: state.id,
+        name: state.name,
+        color: state.color,
+        type: state.type,
+        position: state.position,
+      },
+      assignee: toUser(issue.assigneeId),
+      creator: toUser(issue.creatorId),
+      project: this.getProject(issue.projectId) ?? null,
+      team: this.getTeam(issue.teamId)!,
+      labels: {
+        nodes: this.data.labels.filter((l) => issue.labelIds.includes(l.id)),
+      },
+      cycle: null,
+      parent: null,
+    };
+  }
+
+  /**
+   * GraphQLのIssueFilterで絞り込むために、関連を展開したIssueを返す
+   */
+  toFilterable(issue: MockIssue): Record<string, unknown> {
+    const withIsMe = (user?: MockUser) =>
+      user ? { ...user, isMe: user.id === this.data.viewerId } : null;
+    return {
+      ...issue,
+      state: this.data.states.find((s) => s.id === issue.stateId),
+      team: this.getTeam(issue.teamId),
+      project: this.getProject(issue.projectId) ?? null,
+      assignee: withIsMe(this.getUser(issue.assigneeId)),
+      creator: withIsMe(this.getUser(issue.creatorId)),
+      labels: this.data.labels.filter((l) => issue.labelIds.includes(l.id)),
+      subscribers: issue.subscriberIds.map((id) => withIsMe(this.getUser(id))),
+    };
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}-mock-${this.nextId++}`;
+  }
+}
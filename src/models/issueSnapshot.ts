@@ -0,0 +1,75 @@
+/**
+ * 拡張機能内で扱うIssueのスナップショット
+ * SDKのモデルと違いゲッターや遅延取得を持たないプレーンなオブジェクトなので、
+ * globalStateへ永続化して読み戻しても同じように扱える
+ */
+
+export interface IssueStateSnapshot {
+  id: string;
+  name: string;
+  color: string;
+  type: string;
+}
+
+export interface IssueUserSnapshot {
+  id: string;
+  name: string;
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+export interface IssueProjectSnapshot {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+export interface IssueTeamSnapshot {
+  id: string;
+  key: string;
+  name: string;
+}
+
+export interface IssueLabelSnapshot {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface IssueCycleSnapshot {
+  id: string;
+  number: number;
+  name?: string;
+}
+
+export interface IssueParentSnapshot {
+  id: string;
+  identifier: string;
+  title: string;
+}
+
+export interface IssueSnapshot {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string;
+  priority: number;
+  priorityLabel: string;
+  url: string;
+  // 日時はISO 8601形式の文字列で保持する
+  createdAt: string;
+  updatedAt: string;
+  archivedAt?: string;
+  completedAt?: string;
+  canceledAt?: string;
+  dueDate?: string;
+  estimate?: number;
+  state: IssueStateSnapshot | null;
+  assignee: IssueUserSnapshot | null;
+  creator: IssueUserSnapshot | null;
+  project: IssueProjectSnapshot | null;
+  team: IssueTeamSnapshot | null;
+  labels: IssueLabelSnapshot[];
+  cycle: IssueCycleSnapshot | null;
+  parent: IssueParentSnapshot | null;
+}
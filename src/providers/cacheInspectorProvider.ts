@@ -0,0 +1,187 @@
+import * as vscode from "vscode";
+import { CacheEntryInfo, CacheService } from "../services/cache/cacheService";
+
+/**
+ * キーの名前空間（issues、comments など）ごとのまとまり
+ * - prefix: まとめて削除するときに使うプレフィックス
+ */
+export interface CacheNamespaceNode {
+  type: "namespace";
+  namespace: string;
+  prefix: string;
+  entries: CacheEntryInfo[];
+}
+
+export interface CacheEntryNode {
+  type: "entry";
+  entry: CacheEntryInfo;
+}
+
+export type CacheInspectorNode = CacheNamespaceNode | CacheEntryNode;
+
+/**
+ * CacheService が保持している値を名前空間ごとに一覧表示する
+ * 経過時間は表示のたびに変わるため、自動では更新せず refresh で描画し直す
+ */
+export class CacheInspectorProvider
+  implements vscode.TreeDataProvider<CacheInspectorNode>
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    CacheInspectorNode | undefined | void
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(private readonly cacheService: CacheService) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  dispose(): void {
+    this._onDidChangeTreeData.dispose();
+  }
+
+  /**
+   * ビューの上部に表示する、キャッシュ全体の概要
+   */
+  describe(): string {
+    const metrics = this.cacheService.getMetrics();
+    return `${metrics.entries} entries, ${formatSize(
+      metrics.size
+    )} / ${formatSize(metrics.maxSize)}, ${metrics.issueEntities} issues (${
+      this.cacheService.storageType
+    } storage)`;
+  }
+
+  getChildren(element?: CacheInspectorNode): CacheInspectorNode[] {
+    if (!element) {
+      return this.getNamespaces();
+    }
+    if (element.type === "namespace") {
+      // 最近保存されたものから表示する
+      return [...element.entries]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .map((entry) => ({ type: "entry", entry }));
+    }
+    return [];
+  }
+
+  getTreeItem(element: CacheInspectorNode): vscode.TreeItem {
+    if (element.type === "namespace") {
+      const size = element.entries.reduce((sum, e) => sum + e.size, 0);
+      const item = new vscode.TreeItem(
+        element.namespace,
+        vscode.TreeItemCollapsibleState.Collapsed
+      );
+      item.description = `${element.entries.length} entries, ${formatSize(
+        size
+      )}`;
+      item.tooltip = `Keys starting with "${element.prefix}"`;
+      item.iconPath = new vscode.ThemeIcon("symbol-namespace");
+      item.contextValue = "cacheNamespace";
+      return item;
+    }
+
+    const { entry } = element;
+    const now = Date.now();
+    const age = now - entry.timestamp;
+    const expired = entry.ttl > 0 && age > entry.ttl;
+
+    const item = new vscode.TreeItem(
+      this.getEntryLabel(entry),
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.description = [
+      `${formatDuration(age)} old`,
+      entry.ttl > 0 ? `TTL ${formatDuration(entry.ttl)}` : "no TTL",
+      formatSize(entry.size),
+    ].join(" · ");
+    item.iconPath = new vscode.ThemeIcon(
+      expired ? "warning" : entry.persisted ? "database" : "symbol-field"
+    );
+    item.contextValue = "cacheEntry";
+
+    item.tooltip = new vscode.MarkdownString();
+    item.tooltip.appendMarkdown(`**${entry.key}**\n\n`);
+    item.tooltip.appendMarkdown(
+      `- Saved: ${new Date(entry.timestamp).toLocaleString()}\n`
+    );
+    item.tooltip.appendMarkdown(
+      `- Expires: ${
+        entry.ttl <= 0
+          ? "never"
+          : expired
+          ? "expired (refetched on next use)"
+          : `in ${formatDuration(entry.ttl - age)}`
+      }\n`
+    );
+    item.tooltip.appendMarkdown(`- Size: ${formatSize(entry.size)}\n`);
+    item.tooltip.appendMarkdown(
+      `- Last update ID: ${entry.lastUpdateId ?? "none"}\n`
+    );
+    item.tooltip.appendMarkdown(
+      `- Persisted: ${entry.persisted ? "yes" : "no (memory only)"}\n`
+    );
+    return item;
+  }
+
+  private getNamespaces(): CacheNamespaceNode[] {
+    const groups = new Map<string, CacheEntryInfo[]>();
+    this.cacheService.inspect().forEach((entry) => {
+      const entries = groups.get(entry.namespace) ?? [];
+      entries.push(entry);
+      groups.set(entry.namespace, entries);
+    });
+
+    return [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([namespace, entries]) => ({
+        type: "namespace",
+        namespace,
+        // 「teams」と「teams:...」のように区切りのないキーがある場合は名前空間そのものを使う
+        prefix: entries.every((entry) => entry.key !== namespace)
+          ? `${namespace}:`
+          : namespace,
+        entries,
+      }));
+  }
+
+  /**
+   * 名前空間を除いたキーを表示名にする（名前空間そのもののキーはそのまま）
+   */
+  private getEntryLabel(entry: CacheEntryInfo): string {
+    return entry.key === entry.namespace
+      ? entry.key
+      : entry.key.substring(entry.namespace.length + 1);
+  }
+}
+
+/**
+ * 文字数をKB・MB単位の表記にする
+ */
+export function formatSize(size: number): string {
+  if (size < 1024) {
+    return `${size} B`;
+  }
+  if (size < 1024 * 1024) {
+    return `${(size / 1024).toFixed(1)} KB`;
+  }
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * ミリ秒を「30s」「5m」「2h」のような短い表記にする
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 60 * 60) {
+    return `${Math.round(seconds / 60)}m`;
+  }
+  if (seconds < 24 * 60 * 60) {
+    return `${Math.round(seconds / 60 / 60)}h`;
+  }
+  return `${Math.round(seconds / 24 / 60 / 60)}d`;
+}
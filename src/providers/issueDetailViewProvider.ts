@@ -1,8 +1,14 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
-import { LinearService } from "../services/linearService";
+import { IssueBackend } from "../services/backend/issueBackend";
+import { IssueSnapshot } from "../models/issueSnapshot";
+import { Logger } from "../services/logging/logger";
 
-export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
+const logger = new Logger("IssueDetail");
+
+export class IssueDetailViewProvider
+  implements vscode.WebviewViewProvider, vscode.Disposable
+{
   public static readonly viewType = "linearIssueDetail";
 
   // WebViewインスタンスを保持
@@ -11,6 +17,21 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
   // 遅延ロード用のキャッシュ
   private _pendingIssueId?: string = undefined;
 
+  // 現在表示中のイシューID
+  private _currentIssueId?: string = undefined;
+
+  // 読み込み中のイシュー
+  // 別のイシューが選ばれたら古い読み込みを中断する
+  // 読み込み中に同じイシューの更新が届いた場合は、読み込みの完了後にもう一度だけ読み込む（rerun）
+  private _currentLoad?: {
+    issueId: string;
+    promise: Promise<void>;
+    cancellation: vscode.CancellationTokenSource;
+    rerun?: Promise<void>;
+  };
+
+  private _disposables: vscode.Disposable[] = [];
+
   // WebViewがレンダリング済みかどうか
   private _isReady = false;
 
@@ -24,9 +45,25 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
-    private readonly _linearService: LinearService
+    private readonly _linearService: IssueBackend
   ) {
-    console.log("IssueDetailViewProvider: コンストラクタ実行");
+    // 表示中のイシューがバックグラウンドで更新されたら再描画する
+    this._disposables.push(
+      this._linearService.onDidChangeIssue((issueId) => {
+        if (issueId === this._currentIssueId && this._view?.visible) {
+          this.updateIssueDetail(issueId, { showLoading: false }).catch((err) =>
+            logger.error("Failed to re-render the updated issue", err, {
+              issueId,
+            })
+          );
+        }
+      })
+    );
+  }
+
+  public dispose() {
+    this._disposables.forEach((d) => d.dispose());
+    this._disposables = [];
   }
 
   /**
@@ -37,59 +74,49 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
     _context: vscode.WebviewViewResolveContext,
     _token: vscode.CancellationToken
   ) {
-    console.log("IssueDetailViewProvider: resolveWebviewView呼び出し開始");
+    logger.debug("Resolving webview view");
     this._diagnostics.initAttempts++;
 
     try {
       // WebViewインスタンスとビューを保存
       this._view = webviewView;
-      console.log("IssueDetailViewProvider: ビューインスタンスを保存しました");
 
       // WebViewの基本設定
       webviewView.webview.options = {
         enableScripts: true,
         localResourceRoots: [this._extensionUri],
       };
-      console.log("IssueDetailViewProvider: WebViewオプションを設定しました");
 
       // 初期HTMLの設定
       webviewView.webview.html = this._getWebviewHtml(webviewView.webview);
-      console.log("IssueDetailViewProvider: 初期HTMLを設定しました");
 
       // WebViewメッセージハンドラを設定
       webviewView.webview.onDidReceiveMessage(
         this._handleWebViewMessage.bind(this)
       );
-      console.log("IssueDetailViewProvider: メッセージハンドラを設定しました");
 
       // WebViewが破棄されたときのイベント処理
       webviewView.onDidDispose(() => {
-        console.log("IssueDetailViewProvider: WebViewが破棄されました");
+        logger.debug("Webview disposed");
         this._view = undefined;
         this._isReady = false;
       });
 
       // WebViewが表示されたときのイベント処理
       webviewView.onDidChangeVisibility(() => {
-        console.log(
-          "IssueDetailViewProvider: WebViewの可視性が変更されました - 表示状態:",
-          webviewView.visible
-        );
+        logger.trace("Webview visibility changed", {
+          visible: webviewView.visible,
+        });
 
         if (webviewView.visible) {
-          console.log("IssueDetailViewProvider: WebViewが表示されました");
-
           // 保留中のイシューがあれば表示
           this._processPendingIssue();
         }
       });
 
-      console.log("IssueDetailViewProvider: resolveWebviewView呼び出し完了");
+      logger.debug("Resolved webview view");
     } catch (error) {
-      console.error(
-        "IssueDetailViewProvider: WebView初期化中にエラーが発生しました:",
-        error
-      );
+      logger.error("Failed to initialize webview", error);
       this._diagnostics.lastError =
         error instanceof Error ? error : new Error(String(error));
     }
@@ -99,27 +126,29 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
    * WebViewからのメッセージを処理するハンドラ
    */
   private async _handleWebViewMessage(message: any) {
-    console.log(
-      `IssueDetailViewProvider: WebViewからメッセージを受信: ${message.type}`
-    );
+    logger.trace("Received webview message", { type: message.type });
 
     switch (message.type) {
       case "ready":
-        console.log("IssueDetailViewProvider: WebViewの準備完了");
+        logger.debug("Webview is ready");
         this._isReady = true;
         this._processPendingIssue();
         break;
 
       case "addComment":
         try {
-          await this._linearService.addComment(
+          const sent = await this._linearService.addComment(
             message.issueId,
             message.content
           );
-          console.log(`イシュー ${message.issueId} にコメントを追加しました`);
+          logger.info(sent ? "Added comment" : "Queued comment", {
+            issueId: message.issueId,
+          });
           await this.updateIssueDetail(message.issueId);
         } catch (error) {
-          console.error("コメント追加でエラー:", error);
+          logger.error("Failed to add comment", error, {
+            issueId: message.issueId,
+          });
           this._postErrorMessage("コメントの追加に失敗しました");
         }
         break;
@@ -127,15 +156,15 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
       case "openLink":
         try {
           // URLを開く
-          console.log(`外部リンクを開きます: ${message.url}`);
+          logger.debug("Opening external link", { url: message.url });
           await vscode.env.openExternal(vscode.Uri.parse(message.url));
         } catch (error) {
-          console.error("リンクを開く際にエラー:", error);
+          logger.error("Failed to open external link", error);
         }
         break;
 
       case "debug":
-        console.log("デバッグ情報:", message.data);
+        logger.debug("Webview debug message", { data: message.data });
         break;
     }
   }
@@ -145,72 +174,169 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
    */
   private _processPendingIssue() {
     if (this._pendingIssueId && this._isReady && this._view?.webview) {
-      console.log(
-        `IssueDetailViewProvider: 保留中のイシュー(${this._pendingIssueId})を表示します`
-      );
+      logger.debug("Showing pending issue", {
+        issueId: this._pendingIssueId,
+      });
       const issueId = this._pendingIssueId;
       this._pendingIssueId = undefined;
       this.updateIssueDetail(issueId).catch((err) => {
-        console.error("保留中イシューの表示に失敗:", err);
+        logger.error("Failed to show pending issue", err, { issueId });
         this._diagnostics.lastError = err;
       });
     }
   }
 
+  /**
+   * 表示中のイシューを取得し直して再描画する
+   */
+  public async refresh(): Promise<void> {
+    if (this._currentIssueId && this._view?.visible) {
+      await this.updateIssueDetail(this._currentIssueId, {
+        showLoading: false,
+      });
+    }
+  }
+
   /**
    * 外部からの呼び出しでイシュー詳細を更新する
+   * @param options.showLoading 取得中にローディング表示をするか（デフォルト: true）
    */
-  public async updateIssueDetail(issueId: string) {
-    console.log(`IssueDetailViewProvider: イシュー詳細の更新要求: ${issueId}`);
+  public async updateIssueDetail(
+    issueId: string,
+    options: { showLoading?: boolean } = {}
+  ) {
+    logger.trace("Issue detail update requested", { issueId });
     this._diagnostics.pendingUpdates++;
 
     // パラメータチェック
     if (!issueId) {
-      console.error("updateIssueDetail: 無効なissueId");
+      logger.error("updateIssueDetail called without an issue id");
       return;
     }
 
     // 初期化時のダミーIDの場合は処理をスキップ
     if (issueId === "initialization-dummy-id") {
-      console.log("初期化用ダミーIDのため処理をスキップします");
+      logger.trace("Skipping the initialization dummy issue id");
       return;
     }
 
     // WebViewが利用可能かチェック
     if (!this._view?.webview) {
-      console.log("WebViewが利用できません。イシューIDを保存します:", issueId);
+      logger.debug("Webview is not available, keeping the issue pending", {
+        issueId,
+      });
       this._pendingIssueId = issueId;
       // VSCodeのViewを表示する試み
       try {
         await vscode.commands.executeCommand("workbench.view.extension.linear");
         await vscode.commands.executeCommand("linearIssueDetail.focus");
       } catch (error) {
-        console.log("WebViewを表示する試みが失敗:", error);
+        logger.warn(`Failed to open the issue detail view: ${error}`);
       }
       return;
     }
 
+    const current = this._currentLoad;
+    if (current?.issueId === issueId) {
+      // 読み込み中の結果は更新前の内容の可能性があるため、完了後に読み込み直す
+      // 読み込み中に届いた複数の要求は1回の読み込み直しにまとめる
+      if (!current.rerun) {
+        current.rerun = current.promise.then(() => {
+          // 別のイシューが選ばれた、または既に新しい読み込みが始まっている場合は不要
+          if (
+            current.cancellation.token.isCancellationRequested ||
+            this._currentLoad
+          ) {
+            return;
+          }
+          return this._startLoad(issueId, { showLoading: false });
+        });
+      }
+      return current.rerun;
+    }
+    current?.cancellation.cancel();
+
+    return this._startLoad(issueId, options);
+  }
+
+  /**
+   * イシューの読み込みを開始し、読み込み中のイシューとして記録する
+   */
+  private _startLoad(
+    issueId: string,
+    options: { showLoading?: boolean }
+  ): Promise<void> {
+    const cancellation = new vscode.CancellationTokenSource();
+    const promise = this._loadIssueDetail(
+      issueId,
+      options,
+      cancellation.token
+    ).finally(() => {
+      if (this._currentLoad?.promise === promise) {
+        this._currentLoad = undefined;
+      }
+      cancellation.dispose();
+    });
+    this._currentLoad = { issueId, promise, cancellation };
+    return promise;
+  }
+
+  /**
+   * イシュー詳細とコメントを取得してWebViewに送信する
+   * 取得中に別のイシューが選ばれた場合は、取得を打ち切り、結果を表示せずに終了する
+   */
+  private async _loadIssueDetail(
+    issueId: string,
+    options: { showLoading?: boolean },
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const elapsed = logger.startTimer();
     try {
+      this._currentIssueId = issueId;
+
       // ローディング表示
-      this._showLoading();
+      if (options.showLoading !== false) {
+        this._showLoading();
+      }
 
       // イシュー詳細とコメントの取得
-      const issue = await this._linearService.getIssueDetails(issueId);
+      const issue = await this._linearService.getIssueDetails(issueId, token);
+      if (token.isCancellationRequested) {
+        logger.debug("Issue detail load superseded", { issueId });
+        return;
+      }
 
       // イシュー情報が取得できなかった場合
       if (!issue) {
-        console.error(`イシュー(${issueId})の情報を取得できませんでした`);
+        logger.error("Issue details are unavailable", undefined, { issueId });
         this._postErrorMessage("イシュー情報を取得できませんでした");
         return;
       }
 
-      const comments = await this._linearService.getIssueComments(issueId);
+      const comments = await this._linearService.getIssueComments(
+        issueId,
+        token
+      );
+      if (token.isCancellationRequested) {
+        logger.debug("Issue detail load superseded", { issueId });
+        return;
+      }
 
       // WebViewにデータを送信
       this._postIssueData(issue, comments);
       this._diagnostics.successfulUpdates++;
+      logger.debug("Loaded issue detail", {
+        issueId,
+        durationMs: elapsed(),
+      });
     } catch (error) {
-      console.error("イシュー詳細の取得でエラー:", error);
+      if (token.isCancellationRequested) {
+        return;
+      }
+      logger.error("Failed to load issue detail", error, {
+        issueId,
+        durationMs: elapsed(),
+      });
       this._postErrorMessage(`イシュー詳細の取得に失敗しました: ${error}`);
       this._diagnostics.lastError =
         error instanceof Error ? error : new Error(String(error));
@@ -228,9 +354,9 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
         type: "loading",
       })
       .then(
-        () => console.log("ローディングメッセージを送信しました"),
+        () => {},
         (err: Error) => {
-          console.error("ローディングメッセージの送信に失敗:", err);
+          logger.error("Failed to post loading message", err);
           // HTMLの再設定を試みる
           this._resetHtml();
         }
@@ -251,7 +377,7 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
       .then(
         () => {},
         (err: Error) => {
-          console.error("エラーメッセージの送信に失敗:", err);
+          logger.error("Failed to post error message", err);
           this._resetHtml();
         }
       );
@@ -260,7 +386,7 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
   /**
    * WebViewにイシュー詳細データを送信
    */
-  private _postIssueData(issue: any, comments: any[]) {
+  private _postIssueData(issue: IssueSnapshot, comments: any[]) {
     if (!this._view?.webview) return;
 
     this._view.webview
@@ -270,9 +396,9 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
         comments: comments,
       })
       .then(
-        () => console.log(`イシュー(${issue.id})データを送信しました`),
+        () => {},
         (err: Error) => {
-          console.error("イシューデータの送信に失敗:", err);
+          logger.error("Failed to post issue data", err, { issueId: issue.id });
           this._resetHtml();
         }
       );
@@ -284,7 +410,7 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
   private _resetHtml() {
     if (!this._view?.webview) return;
 
-    console.log("WebViewのHTMLをリセットします");
+    logger.debug("Resetting webview HTML");
     this._view.webview.html = this._getWebviewHtml(this._view.webview);
     this._isReady = false;
   }
@@ -336,7 +462,7 @@ export class IssueDetailViewProvider implements vscode.WebviewViewProvider {
 
       return html;
     } catch (error) {
-      console.error("HTMLファイルの読み込みに失敗:", error);
+      logger.error("Failed to load webview HTML", error);
 
       // エラー時はフォールバックの簡易HTMLを返す
       return `<!DOCTYPE html>
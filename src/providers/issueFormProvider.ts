@@ -1,6 +1,9 @@
 import * as vscode from "vscode";
-import { LinearService } from "../services/linearService";
-import { Issue } from "@linear/sdk";
+import { IssueBackend } from "../services/backend/issueBackend";
+import { IssueSnapshot } from "../models/issueSnapshot";
+import { Logger } from "../services/logging/logger";
+
+const logger = new Logger("IssueForm");
 
 interface IssueFormData {
   teamId: string;
@@ -15,7 +18,7 @@ export class IssueFormProvider implements vscode.WebviewViewProvider {
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
-    private readonly _linearService: LinearService
+    private readonly _linearService: IssueBackend
   ) {}
 
   public resolveWebviewView(
@@ -72,7 +75,9 @@ export class IssueFormProvider implements vscode.WebviewViewProvider {
       });
 
       vscode.window.showInformationMessage(
-        `Issue "${data.title}" has been created`
+        createdIssue
+          ? `Issue "${data.title}" has been created`
+          : `Issue "${data.title}" will be created when Linear is reachable`
       );
 
       this._view?.webview.postMessage({
@@ -99,7 +104,9 @@ export class IssueFormProvider implements vscode.WebviewViewProvider {
       });
 
       vscode.window.showInformationMessage(
-        `Issue "${data.title}" has been updated`
+        updatedIssue
+          ? `Issue "${data.title}" has been updated`
+          : `Changes to "${data.title}" will be sent when Linear is reachable`
       );
 
       this._view?.webview.postMessage({
@@ -108,10 +115,8 @@ export class IssueFormProvider implements vscode.WebviewViewProvider {
       });
 
       // 更新成功後にフォームをリセット
+      // ツリービューの該当ノードはLinearServiceからの通知で更新される
       this.showCreateForm();
-
-      // イベントを発行してツリービューを更新
-      vscode.commands.executeCommand("linear.refreshIssues");
     } catch (error) {
       throw new Error(`Failed to update issue: ${error}`);
     }
@@ -122,7 +127,7 @@ export class IssueFormProvider implements vscode.WebviewViewProvider {
       const teams = await this._linearService.getTeams();
       this._view?.webview.postMessage({ type: "teamsLoaded", teams });
     } catch (error) {
-      console.error(`Failed to load teams: ${error}`);
+      logger.error("Failed to load teams", error);
       this._view?.webview.postMessage({
         type: "error",
         message: `チーム情報の取得に失敗しました: ${error}`,
@@ -136,7 +141,7 @@ export class IssueFormProvider implements vscode.WebviewViewProvider {
       const states = await this._linearService.getWorkflowStates(teamId);
       this._view?.webview.postMessage({ type: "statesLoaded", states });
     } catch (error) {
-      console.error(`Failed to load states: ${error}`);
+      logger.error("Failed to load states", error);
       this._view?.webview.postMessage({
         type: "error",
         message: `ステータス情報の取得に失敗しました: ${error}`,
@@ -167,7 +172,7 @@ export class IssueFormProvider implements vscode.WebviewViewProvider {
           loading: false, // 初期状態でローディングを表示しない
         });
       } catch (error) {
-        console.error("Failed to show create form:", error);
+        logger.error("Failed to show create form", error);
         // エラーが発生した場合でもユーザーに通知
         vscode.window.showErrorMessage(
           `フォームの表示に失敗しました: ${error}`
@@ -176,7 +181,7 @@ export class IssueFormProvider implements vscode.WebviewViewProvider {
     }
   }
 
-  public async showEditForm(issue: Issue) {
+  public async showEditForm(issue: IssueSnapshot) {
     if (this._view) {
       this._view.show(true);
       try {
@@ -186,7 +191,7 @@ export class IssueFormProvider implements vscode.WebviewViewProvider {
           loading: false, // 初期状態でローディングを表示しない
         });
       } catch (error) {
-        console.error("Failed to show edit form:", error);
+        logger.error("Failed to show edit form", error);
         vscode.window.showErrorMessage(
           `Issue編集フォームの表示に失敗しました: ${error}`
         );
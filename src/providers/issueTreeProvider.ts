@@ -1,6 +1,16 @@
 import * as vscode from "vscode";
-import { LinearService } from "../services/linearService";
-import { Issue, WorkflowState, Project } from "@linear/sdk";
+import {
+  DEFAULT_ISSUE_SCOPE,
+  IssueListInfo,
+  IssueScope,
+  resolveIssueScope,
+} from "../services/linearService";
+import { IssueBackend } from "../services/backend/issueBackend";
+import { WorkflowStateDto } from "../services/graphql/issueQueries";
+import { IssueSnapshot } from "../models/issueSnapshot";
+import { Logger } from "../services/logging/logger";
+
+const logger = new Logger("IssueTree");
 
 interface FilterIndicator {
   type: "filter" | "quickFilter";
@@ -17,8 +27,10 @@ interface FilterIndicator {
 
 interface IssueGroup {
   type: "group";
+  // グループ化の基準のID（ステータスはチームごとに別のため、ラベルが重複する場合がある）
+  id: string;
   label: string;
-  issues: Issue[];
+  issues: IssueSnapshot[];
   iconPath?: vscode.ThemeIcon;
 }
 
@@ -29,6 +41,7 @@ interface PriorityLabels {
 export type GroupBy = "none" | "status" | "project";
 export interface FilterCriteria {
   assignedToMe?: boolean;
+  scope?: IssueScope;
   status?: string[];
   priority?: number[];
   project?: string[];
@@ -59,32 +72,14 @@ interface CustomTreeItem {
   };
 }
 
-// イシューの表示に必要な基本情報をキャッシュする軽量オブジェクト
-interface IssueDisplayInfo {
-  id: string;
-  identifier: string;
-  title: string;
-  stateId?: string;
-  stateName?: string;
-  stateColor?: string;
-  stateType?: string;
-  priority: number;
-  assigneeId?: string;
-  assigneeName?: string;
-  projectId?: string;
-  projectName?: string;
-  createdAt: Date | string;
-  updatedAt: Date | string;
-}
-
 export class IssueTreeProvider
   implements
     vscode.TreeDataProvider<
-      Issue | IssueGroup | FilterIndicator | CustomTreeItem
+      IssueSnapshot | IssueGroup | FilterIndicator | CustomTreeItem
     >
 {
   private _onDidChangeTreeData: vscode.EventEmitter<
-    | Issue
+    | IssueSnapshot
     | IssueGroup
     | FilterIndicator
     | CustomTreeItem
@@ -92,7 +87,7 @@ export class IssueTreeProvider
     | null
     | void
   > = new vscode.EventEmitter<
-    | Issue
+    | IssueSnapshot
     | IssueGroup
     | FilterIndicator
     | CustomTreeItem
@@ -101,7 +96,7 @@ export class IssueTreeProvider
     | void
   >();
   readonly onDidChangeTreeData: vscode.Event<
-    | Issue
+    | IssueSnapshot
     | IssueGroup
     | FilterIndicator
     | CustomTreeItem
@@ -116,16 +111,17 @@ export class IssueTreeProvider
   };
 
   // キャッシュ
-  private stateCache: Map<string, WorkflowState[]> = new Map();
-  private projectCache: Map<string, Project> = new Map();
-  private issueCache: Issue[] = [];
-  private issueDisplayInfoCache: Map<string, IssueDisplayInfo> = new Map();
+  private stateCache: Map<string, WorkflowStateDto[]> = new Map();
+  private issueCache: IssueSnapshot[] = [];
   private lastFetchTime: number = 0;
   private readonly CACHE_DURATION = 300000; // 5分
 
   // ページネーション
   private readonly PAGE_SIZE = 50;
   private currentPage = 1;
+  private totalPages = 1;
+  // APIから取得した一覧の件数情報
+  private issueListInfo?: IssueListInfo;
 
   // 展開状態の管理
   private expandedGroups: Set<string> = new Set();
@@ -139,6 +135,8 @@ export class IssueTreeProvider
   // クイックフィルター用の定数
   private readonly QUICK_FILTERS = {
     MY_ISSUES: "assignedToMe",
+    TEAM_ISSUES: "teamIssues",
+    UNASSIGNED: "unassigned",
     HIGH_PRIORITY: "highPriority",
     DUE_SOON: "dueSoon",
     RECENTLY_UPDATED: "recentlyUpdated",
@@ -146,6 +144,8 @@ export class IssueTreeProvider
 
   // ローディング状態の管理
   private isLoading = false;
+  // 読み込み中に再描画が要求された場合は読み込み完了後に再描画する
+  private reloadRequested = false;
   private loadingMessage = "Loading...";
 
   // アクセシビリティ用のラベル
@@ -166,11 +166,41 @@ export class IssueTreeProvider
   private readonly extensionUri: vscode.Uri;
 
   constructor(
-    private _linearService: LinearService,
+    private _linearService: IssueBackend,
     context: vscode.ExtensionContext
   ) {
     this.groupBy = "status"; // デフォルトのグルーピングをstatusに設定
     this.extensionUri = context.extensionUri;
+
+    // バックグラウンド更新の結果をツリーに反映する
+    context.subscriptions.push(
+      this._linearService.onDidChangeIssues(() => this.reload()),
+      this._linearService.onDidPatchIssue((issue) => this.updateIssue(issue))
+    );
+  }
+
+  /**
+   * 変更操作で書き換えられたIssueのノードのみを更新する
+   * 所属するグループが変わる場合は、APIから再取得せずに手元の一覧から再描画する
+   */
+  private updateIssue(issue: IssueSnapshot): void {
+    const existing = this.issueCache.find((i) => i.id === issue.id);
+    if (!existing) {
+      return;
+    }
+
+    const movesGroup =
+      (this.groupBy === "status" && existing.state?.id !== issue.state?.id) ||
+      (this.groupBy === "project" &&
+        existing.project?.id !== issue.project?.id);
+
+    // ツリーが保持している要素と同じオブジェクトを書き換える
+    (Object.keys(existing) as (keyof IssueSnapshot)[]).forEach(
+      (key) => delete existing[key]
+    );
+    Object.assign(existing, issue);
+
+    this._onDidChangeTreeData.fire(movesGroup ? undefined : existing);
   }
 
   // 展開状態の切り替え
@@ -185,8 +215,10 @@ export class IssueTreeProvider
 
   // ページ制御
   nextPage() {
-    this.currentPage++;
-    this._onDidChangeTreeData.fire();
+    if (this.currentPage < this.totalPages) {
+      this.currentPage++;
+      this._onDidChangeTreeData.fire();
+    }
   }
 
   previousPage() {
@@ -200,7 +232,7 @@ export class IssueTreeProvider
     this.currentPage = 1;
   }
 
-  private getPagedIssues(issues: Issue[]): Issue[] {
+  private getPagedIssues(issues: IssueSnapshot[]): IssueSnapshot[] {
     const start = (this.currentPage - 1) * this.PAGE_SIZE;
     return issues.slice(start, start + this.PAGE_SIZE);
   }
@@ -211,9 +243,17 @@ export class IssueTreeProvider
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * ページ位置を保ったまま、LinearServiceのキャッシュから再描画する
+   */
+  reload(): void {
+    this.clearCache();
+    this._onDidChangeTreeData.fire();
+  }
+
   private clearCache(): void {
     this.issueCache = [];
-    this.issueDisplayInfoCache.clear();
+    this.issueListInfo = undefined;
     this.lastFetchTime = 0;
   }
 
@@ -231,8 +271,12 @@ export class IssueTreeProvider
     this._onDidChangeTreeData.fire();
   }
 
-  clearFilter(): void {
-    this.filterCriteria = { includeCompleted: false };
+  /**
+   * フィルターをすべて解除する
+   * @param defaults 解除後に適用するフィルター（既定のフィルターなど）
+   */
+  clearFilter(defaults: FilterCriteria = { includeCompleted: false }): void {
+    this.filterCriteria = { includeCompleted: false, ...defaults };
     this.clearCache();
     this.resetPagination();
     this.updateFilterIndicators();
@@ -243,7 +287,7 @@ export class IssueTreeProvider
     return { ...this.filterCriteria };
   }
 
-  private async getIssuesWithCache(): Promise<Issue[]> {
+  private async getIssuesWithCache(): Promise<IssueSnapshot[]> {
     const now = Date.now();
     if (
       this.issueCache.length > 0 &&
@@ -256,143 +300,48 @@ export class IssueTreeProvider
       this.loadingMessage = "Fetching issues...";
 
       // フィルター条件を渡して、API側でフィルタリングする
+      const includeCompleted = this.filterCriteria.includeCompleted || false;
+      const additionalFilters = {
+        scope: resolveIssueScope(this.filterCriteria),
+        status: this.filterCriteria.status,
+        priority: this.filterCriteria.priority,
+        project: this.filterCriteria.project,
+        labels: this.filterCriteria.labels,
+        updatedAfter: this.filterCriteria.updatedAfter,
+        query: this.filterCriteria.query,
+      };
       const issues = await this._linearService.getIssues(
-        this.filterCriteria.includeCompleted || false,
-        {
-          status: this.filterCriteria.status,
-          priority: this.filterCriteria.priority,
-          project: this.filterCriteria.project,
-          labels: this.filterCriteria.labels,
-          updatedAfter: this.filterCriteria.updatedAfter,
-          query: this.filterCriteria.query,
-        }
+        includeCompleted,
+        additionalFilters
       );
 
       this.issueCache = issues;
+      this.issueListInfo = this._linearService.getIssueListInfo(
+        includeCompleted,
+        additionalFilters
+      );
       this.lastFetchTime = now;
 
-      // イシュー表示情報のキャッシュを更新
-      await this.updateIssueDisplayInfoCache(issues);
-
       return issues;
     } catch (error) {
+      // オフライン中はステータスバーで状態を示すため、通知は出さない
+      if (this._linearService.isOffline) {
+        logger.warn(`Issues are unavailable while offline: ${error}`);
+        return [];
+      }
       vscode.window.showErrorMessage(`Error fetching issues: ${error}`);
       return [];
     }
   }
 
-  /**
-   * イシュー表示情報のキャッシュを更新する
-   * 個別のAPIコールを避けるように最適化
-   */
-  private async updateIssueDisplayInfoCache(issues: Issue[]): Promise<void> {
-    console.log(`更新対象のイシュー件数: ${issues.length}`);
-
-    for (const issue of issues) {
-      try {
-        // すでにキャッシュされている情報を確認
-        const existingInfo = this.issueDisplayInfoCache.get(issue.id);
-
-        // キャッシュされたデータがあり、最近更新されたものは再利用する
-        if (
-          existingInfo &&
-          new Date(issue.updatedAt).getTime() <=
-            new Date(existingInfo.updatedAt).getTime()
-        ) {
-          console.log(`Using cached info for issue ${issue.identifier}`);
-          continue;
-        }
-
-        // issue情報から安全にデータを抽出する関数
-        const safeExtract = (
-          obj: any,
-          path: string,
-          defaultValue: any = undefined
-        ) => {
-          try {
-            return path
-              .split(".")
-              .reduce(
-                (o, key) => (o && o[key] !== undefined ? o[key] : defaultValue),
-                obj
-              );
-          } catch (e) {
-            return defaultValue;
-          }
-        };
-
-        // state、assignee、projectの情報を安全に抽出
-        const stateId = safeExtract(issue, "state.id");
-        const stateName = safeExtract(issue, "state.name");
-        const stateColor = safeExtract(issue, "state.color");
-        const stateType = safeExtract(issue, "state.type");
-
-        const assigneeId = safeExtract(issue, "assignee.id");
-        const assigneeName = safeExtract(issue, "assignee.name");
-
-        const projectId = safeExtract(issue, "project.id");
-        const projectName = safeExtract(issue, "project.name");
-
-        // デバッグログ
-        console.log(
-          `Processing issue ${issue.identifier}, state: ${
-            stateName || "unknown"
-          }`
-        );
-
-        const displayInfo: IssueDisplayInfo = {
-          id: issue.id,
-          identifier: issue.identifier,
-          title: issue.title,
-          stateId: stateId,
-          stateName: stateName,
-          stateColor: stateColor,
-          stateType: stateType,
-          priority: issue.priority,
-          assigneeId: assigneeId,
-          assigneeName: assigneeName,
-          projectId: projectId,
-          projectName: projectName,
-          createdAt: issue.createdAt,
-          updatedAt: issue.updatedAt,
-        };
-
-        // ステート情報に問題がある場合のデバッグ
-        if (!stateName) {
-          console.warn(`Issue ${issue.identifier} has no state name`, issue);
-        }
-
-        this.issueDisplayInfoCache.set(issue.id, displayInfo);
-      } catch (error) {
-        console.error(`Failed to cache issue ${issue.identifier} info:`, error);
-      }
-    }
-  }
-
-  private async getProjectWithCache(
-    projectId: string
-  ): Promise<Project | null> {
-    if (this.projectCache.has(projectId)) {
-      return this.projectCache.get(projectId)!;
-    }
-
-    try {
-      const project = await this._linearService.getProject(projectId);
-      if (project) {
-        this.projectCache.set(projectId, project);
-      }
-      return project;
-    } catch (error) {
-      console.error(`Error fetching project: ${error}`);
-      return null;
-    }
-  }
-
   async getChildren(
-    element?: Issue | IssueGroup | FilterIndicator | CustomTreeItem
-  ): Promise<(Issue | IssueGroup | FilterIndicator | CustomTreeItem)[]> {
+    element?: IssueSnapshot | IssueGroup | FilterIndicator | CustomTreeItem
+  ): Promise<
+    (IssueSnapshot | IssueGroup | FilterIndicator | CustomTreeItem)[]
+  > {
     if (!element) {
       if (this.isLoading) {
+        this.reloadRequested = true;
         return [this.createLoadingItem()];
       }
 
@@ -402,7 +351,7 @@ export class IssueTreeProvider
         const filteredIssues = await this.filterIssues(issues);
 
         const results: (
-          | Issue
+          | IssueSnapshot
           | IssueGroup
           | FilterIndicator
           | CustomTreeItem
@@ -420,21 +369,31 @@ export class IssueTreeProvider
         }
 
         if (this.groupBy === "none") {
+          // フィルター変更などで件数が減った場合はページ番号を補正
+          this.totalPages = Math.max(
+            1,
+            Math.ceil(filteredIssues.length / this.PAGE_SIZE)
+          );
+          this.currentPage = Math.min(this.currentPage, this.totalPages);
+
           const pagedIssues = this.getPagedIssues(filteredIssues);
           results.push(...pagedIssues);
 
           // ページ情報を追加
-          const totalPages = Math.ceil(filteredIssues.length / this.PAGE_SIZE);
-          if (totalPages > 1) {
-            results.push(this.createPageInfoItem(totalPages));
+          if (this.totalPages > 1 || this.issueListInfo?.hasMore) {
+            results.push(this.createPageInfoItem(this.totalPages));
           }
         } else {
-          results.push(...(await this.groupIssues(filteredIssues)));
+          results.push(...this.groupIssues(filteredIssues));
         }
 
         return results;
       } finally {
         this.isLoading = false;
+        if (this.reloadRequested) {
+          this.reloadRequested = false;
+          setTimeout(() => this._onDidChangeTreeData.fire(), 0);
+        }
       }
     }
 
@@ -467,13 +426,15 @@ export class IssueTreeProvider
     return [];
   }
 
-  private async filterIssues(issues: Issue[]): Promise<Issue[]> {
+  private async filterIssues(
+    issues: IssueSnapshot[]
+  ): Promise<IssueSnapshot[]> {
     // API側でフィルタリング済みなので、そのまま返す
     return issues;
   }
 
   async getTreeItem(
-    item: Issue | IssueGroup | FilterIndicator | CustomTreeItem
+    item: IssueSnapshot | IssueGroup | FilterIndicator | CustomTreeItem
   ): Promise<vscode.TreeItem> {
     // カスタムツリーアイテム
     if (this.isCustomTreeItem(item)) {
@@ -506,7 +467,7 @@ export class IssueTreeProvider
 
     // イシューグループ
     if (this.isIssueGroup(item)) {
-      const isExpanded = this.expandedGroups.has(item.label);
+      const isExpanded = this.expandedGroups.has(item.id);
       const treeItem = new vscode.TreeItem(
         item.label,
         isExpanded
@@ -519,11 +480,11 @@ export class IssueTreeProvider
         treeItem.iconPath = item.iconPath;
       }
       treeItem.contextValue = "issueGroup";
-      treeItem.id = `group:${item.label}`;
+      treeItem.id = `group:${item.id}`;
       treeItem.command = {
         command: "linear.toggleGroupExpansion",
         title: "Toggle Group",
-        arguments: [item.label],
+        arguments: [item.id],
       };
       return treeItem;
     }
@@ -532,40 +493,10 @@ export class IssueTreeProvider
     return this.getIssueTreeItem(item);
   }
 
-  private async getIssueTreeItem(issue: Issue): Promise<vscode.TreeItem> {
-    // デバッグログ
-    console.log(`Getting tree item for issue ${issue.identifier}`);
-
-    // ステータス情報の取得を強化
-    let stateColor = undefined;
-    let stateName = undefined;
-
-    try {
-      // キャッシュから取得を試みる
-      const issueInfo = this.issueDisplayInfoCache.get(issue.id);
-
-      if (issueInfo) {
-        // キャッシュから取得
-        stateColor = issueInfo.stateColor;
-        stateName = issueInfo.stateName;
-        console.log(
-          `Issue ${issue.identifier} using cached state: ${stateName}`
-        );
-      } else {
-        // キャッシュがない場合は取得して更新
-        const state = await issue.state;
-        stateColor = state ? (state as any).color : undefined;
-        stateName = state?.name;
-        console.log(
-          `Issue ${issue.identifier} using fetched state: ${stateName}`
-        );
-      }
-    } catch (error) {
-      console.error(
-        `Error getting state for issue ${issue.identifier}:`,
-        error
-      );
-    }
+  private getIssueTreeItem(issue: IssueSnapshot): vscode.TreeItem {
+    // 関連データは一覧取得時にまとめて取得済み
+    const stateColor = issue.state?.color;
+    const stateName = issue.state?.name;
 
     const treeItem = new vscode.TreeItem(
       `${issue.identifier}: ${issue.title}`,
@@ -580,6 +511,11 @@ export class IssueTreeProvider
     if (stateName) {
       treeItem.tooltip.appendMarkdown(`**Status**: ${stateName}\n\n`);
     }
+    if (issue.assignee) {
+      treeItem.tooltip.appendMarkdown(
+        `**Assignee**: ${issue.assignee.name}\n\n`
+      );
+    }
     if (issue.description) {
       treeItem.tooltip.appendMarkdown(`${issue.description}`);
     }
@@ -587,19 +523,6 @@ export class IssueTreeProvider
     // ステータス表示
     if (stateName) {
       treeItem.description = stateName;
-    } else {
-      // ステータス名がない場合は取得を試みる
-      try {
-        const state = await issue.state;
-        if (state) {
-          treeItem.description = state.name;
-        }
-      } catch (error) {
-        console.error(
-          `Failed to get state name for ${issue.identifier}:`,
-          error
-        );
-      }
     }
 
     // アイコン設定
@@ -731,7 +654,7 @@ export class IssueTreeProvider
     );
   }
 
-  public isIssue(item: any): item is Issue {
+  public isIssue(item: any): item is IssueSnapshot {
     return (
       item &&
       item.id !== undefined &&
@@ -740,24 +663,13 @@ export class IssueTreeProvider
     );
   }
 
-  // 以下の部分はそのまま維持
-  private async groupIssues(issues: Issue[]): Promise<IssueGroup[]> {
-    // ... 既存のコード ...
-    // (この部分は変更不要なので省略)
+  private groupIssues(issues: IssueSnapshot[]): IssueGroup[] {
     if (this.groupBy === "status") {
       // ステータスでグループ化
-      const statusGroups = new Map<string, Issue[]>();
+      const statusGroups = new Map<string, IssueSnapshot[]>();
 
       for (const issue of issues) {
-        const displayInfo = this.issueDisplayInfoCache.get(issue.id);
-        let stateId;
-
-        if (displayInfo && displayInfo.stateId) {
-          stateId = displayInfo.stateId;
-        } else {
-          const state = await issue.state;
-          stateId = state?.id || "unknown";
-        }
+        const stateId = issue.state?.id || "unknown";
 
         if (!statusGroups.has(stateId)) {
           statusGroups.set(stateId, []);
@@ -768,44 +680,15 @@ export class IssueTreeProvider
 
       const result: IssueGroup[] = [];
 
-      for (const [, stateIssues] of statusGroups.entries()) {
-        // サンプルイシューからステート情報を取得
-        const sampleIssue = stateIssues[0];
-
-        // ステータス情報の取得を強化
-        let stateName = "Unknown";
-        let stateColor = undefined;
-
-        try {
-          // まずキャッシュから取得を試みる
-          const displayInfo = this.issueDisplayInfoCache.get(sampleIssue.id);
-
-          if (displayInfo && displayInfo.stateName) {
-            stateName = displayInfo.stateName;
-            stateColor = displayInfo.stateColor;
-            console.log(`Group using cached state: ${stateName}`);
-          } else {
-            // キャッシュになければAPIから取得
-            const state = await sampleIssue.state;
-            if (state) {
-              stateName = state.name || "Unknown";
-              stateColor = (state as any).color;
-              console.log(`Group using fetched state: ${stateName}`);
-            } else {
-              console.warn(
-                `No state found for issue ${sampleIssue.identifier}`
-              );
-            }
-          }
-        } catch (error) {
-          console.error(
-            `Error getting state for issue ${sampleIssue.identifier}:`,
-            error
-          );
-        }
+      for (const [stateId, stateIssues] of statusGroups.entries()) {
+        // グループ内のイシューは同じステートを持つ
+        const state = stateIssues[0].state;
+        const stateName = state?.name || "Unknown";
+        const stateColor = state?.color;
 
         result.push({
           type: "group",
+          id: `state:${stateId}`,
           label: stateName,
           issues: stateIssues,
           iconPath: new vscode.ThemeIcon(
@@ -818,19 +701,11 @@ export class IssueTreeProvider
       return result;
     } else if (this.groupBy === "project") {
       // プロジェクトでグループ化
-      const projectGroups = new Map<string, Issue[]>();
-      const noProjectGroup: Issue[] = [];
+      const projectGroups = new Map<string, IssueSnapshot[]>();
+      const noProjectGroup: IssueSnapshot[] = [];
 
       for (const issue of issues) {
-        const displayInfo = this.issueDisplayInfoCache.get(issue.id);
-        let projectId;
-
-        if (displayInfo) {
-          projectId = displayInfo.projectId;
-        } else {
-          const project = await issue.project;
-          projectId = project?.id;
-        }
+        const projectId = issue.project?.id;
 
         if (!projectId) {
           noProjectGroup.push(issue);
@@ -847,22 +722,11 @@ export class IssueTreeProvider
       const result: IssueGroup[] = [];
 
       for (const [projectId, projectIssues] of projectGroups.entries()) {
-        // プロジェクト名を取得
-        let projectName = "Unknown Project";
-        const sampleIssue = projectIssues[0];
-        const displayInfo = this.issueDisplayInfoCache.get(sampleIssue.id);
-
-        if (displayInfo && displayInfo.projectName) {
-          projectName = displayInfo.projectName;
-        } else {
-          const project = await this.getProjectWithCache(projectId);
-          if (project) {
-            projectName = project.name;
-          }
-        }
+        const projectName = projectIssues[0].project?.name || "Unknown Project";
 
         result.push({
           type: "group",
+          id: `project:${projectId}`,
           label: projectName,
           issues: projectIssues,
           iconPath: new vscode.ThemeIcon("project"),
@@ -872,6 +736,7 @@ export class IssueTreeProvider
       if (noProjectGroup.length > 0) {
         result.push({
           type: "group",
+          id: "project:none",
           label: "No Project",
           issues: noProjectGroup,
           iconPath: new vscode.ThemeIcon("circle-outline"),
@@ -885,7 +750,7 @@ export class IssueTreeProvider
     return [];
   }
 
-  async getAvailableStates(teamId: string): Promise<WorkflowState[]> {
+  async getAvailableStates(teamId: string): Promise<WorkflowStateDto[]> {
     if (this.stateCache.has(teamId)) {
       return this.stateCache.get(teamId)!;
     }
@@ -898,14 +763,15 @@ export class IssueTreeProvider
     // ... 既存のコードをそのまま維持 ...
     const indicators: FilterIndicator[] = [];
 
-    // アサイン済みフィルター
-    if (this.filterCriteria.assignedToMe) {
+    // 対象範囲（既定の「自分のIssue」以外の場合のみ表示）
+    const scope = resolveIssueScope(this.filterCriteria);
+    if (scope.type !== DEFAULT_ISSUE_SCOPE.type) {
       indicators.push({
         type: "filter",
-        label: "Assigned to me",
-        icon: "person",
+        label: `Scope: ${this.getScopeLabel(scope)}`,
+        icon: this.getScopeIcon(scope),
         removable: true,
-        filterKey: "assignedToMe",
+        filterKey: "scope",
       });
     }
 
@@ -964,6 +830,16 @@ export class IssueTreeProvider
           label: "My Issues",
           icon: "person",
         },
+        {
+          key: this.QUICK_FILTERS.TEAM_ISSUES,
+          label: "Team Issues",
+          icon: "organization",
+        },
+        {
+          key: this.QUICK_FILTERS.UNASSIGNED,
+          label: "Unassigned",
+          icon: "circle-slash",
+        },
         {
           key: this.QUICK_FILTERS.HIGH_PRIORITY,
           label: "High Priority",
@@ -980,6 +856,47 @@ export class IssueTreeProvider
     this.filterIndicators = indicators;
   }
 
+  /**
+   * 対象範囲の表示名を返す
+   */
+  public getScopeLabel(scope: IssueScope): string {
+    switch (scope.type) {
+      case "assignedToMe":
+        return "My issues";
+      case "team":
+        return scope.teamIds?.length
+          ? `Team issues (${scope.teamIds.length} teams)`
+          : "All teams";
+      case "unassigned":
+        return "Unassigned";
+      case "createdByMe":
+        return "Created by me";
+      case "subscribedByMe":
+        return "Subscribed by me";
+      case "users":
+        return `Assigned to ${scope.userIds?.length ?? 0} users`;
+      default:
+        return "My issues";
+    }
+  }
+
+  private getScopeIcon(scope: IssueScope): string {
+    switch (scope.type) {
+      case "team":
+        return "organization";
+      case "unassigned":
+        return "circle-slash";
+      case "createdByMe":
+        return "edit";
+      case "subscribedByMe":
+        return "bell";
+      case "users":
+        return "account";
+      default:
+        return "person";
+    }
+  }
+
   private getFilterIndicatorTreeItem(
     indicator: FilterIndicator
   ): vscode.TreeItem {
@@ -1014,7 +931,13 @@ export class IssueTreeProvider
   async applyQuickFilter(filterKey: string) {
     switch (filterKey) {
       case this.QUICK_FILTERS.MY_ISSUES:
-        this.setFilter({ assignedToMe: true });
+        this.setFilter({ scope: { type: "assignedToMe" } });
+        break;
+      case this.QUICK_FILTERS.TEAM_ISSUES:
+        this.setFilter({ scope: { type: "team" } });
+        break;
+      case this.QUICK_FILTERS.UNASSIGNED:
+        this.setFilter({ scope: { type: "unassigned" } });
         break;
       case this.QUICK_FILTERS.HIGH_PRIORITY:
         this.setFilter({ priority: [3, 4] }); // High & Urgent
@@ -1065,16 +988,24 @@ export class IssueTreeProvider
   }
 
   private createPageInfoItem(totalPages: number): CustomTreeItem {
+    // 取得上限に達している場合は続きがあることを示す
+    const hasMore = this.issueListInfo?.hasMore ?? false;
+    const totalLabel = hasMore ? `${totalPages}+` : `${totalPages}`;
+    const totalIssues = this.issueListInfo?.total ?? this.issueCache.length;
+
     return {
       type: "pageInfo",
-      label: `Page ${this.currentPage} of ${totalPages}`,
+      label: `Page ${this.currentPage} of ${totalLabel}`,
+      description: `${totalIssues}${hasMore ? "+" : ""} issues`,
       iconName: "book",
       accessibilityLabel: this.ARIA_LABELS.pageInfo(
         this.currentPage,
         totalPages
       ),
       accessibilityRole: "text",
-      tooltip: `Showing page ${this.currentPage} of ${totalPages}`,
+      tooltip: hasMore
+        ? `Showing page ${this.currentPage} of ${totalLabel}. More issues exist than linear.maxIssuePages allows to fetch`
+        : `Showing page ${this.currentPage} of ${totalPages}`,
     };
   }
 
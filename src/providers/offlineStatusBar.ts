@@ -0,0 +1,65 @@
+import * as vscode from "vscode";
+import { IssueBackend } from "../services/backend/issueBackend";
+import { MutationQueue } from "../services/offline/mutationQueue";
+
+/**
+ * オフライン状態と未送信の変更件数をステータスバーに表示する
+ * オンラインかつ未送信の変更がない場合は非表示にする
+ */
+export class OfflineStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly linearService: IssueBackend,
+    private readonly mutationQueue: MutationQueue
+  ) {
+    this.item = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      100
+    );
+    this.item.command = "linear.showPendingChanges";
+
+    this.disposables.push(
+      this.item,
+      linearService.onDidChangeConnectivity(() => this.update()),
+      mutationQueue.onDidChange(() => this.update())
+    );
+    this.update();
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+
+  private update(): void {
+    const pending = this.mutationQueue.getAll();
+    const conflicts = pending.filter((m) => m.conflict).length;
+
+    if (!this.linearService.isOffline && pending.length === 0) {
+      this.item.hide();
+      return;
+    }
+
+    const icon = this.linearService.isOffline ? "$(cloud-offline)" : "$(sync)";
+    const label = this.linearService.isOffline ? "Linear: Offline" : "Linear";
+    this.item.text =
+      pending.length > 0
+        ? `${icon} ${label} (${pending.length})`
+        : `${icon} ${label}`;
+    this.item.tooltip = [
+      this.linearService.isOffline
+        ? "Linear API is unreachable. Changes are queued and will be sent when the connection returns."
+        : "Sending queued changes to Linear.",
+      conflicts > 0 ? `${conflicts} change(s) need your attention.` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+    this.item.backgroundColor =
+      conflicts > 0
+        ? new vscode.ThemeColor("statusBarItem.warningBackground")
+        : undefined;
+    this.item.show();
+  }
+}
@@ -0,0 +1,305 @@
+import * as vscode from "vscode";
+import { LinearCredential, createLinearClient } from "../linearService";
+import { Logger } from "../logging/logger";
+
+const logger = new Logger("Account");
+
+/**
+ * サインイン済みのLinearアカウント
+ * - id: Linear上のユーザーID（ユーザーはワークスペースごとに異なるため、ワークスペースも一意に決まる）
+ * - type: apiKey は個人用APIキー、oauth はOAuthのセッションを使う
+ */
+export interface LinearAccount {
+  id: string;
+  label: string;
+  type: "apiKey" | "oauth";
+  organization?: {
+    id: string;
+    name: string;
+    urlKey: string;
+  };
+}
+
+/**
+ * アカウントの認証情報を提供する
+ * OAuthのセッションは認証プロバイダーが保持する
+ */
+export interface OAuthSessionSource {
+  getSessions(): Thenable<readonly vscode.AuthenticationSession[]>;
+  removeSession(sessionId: string): Thenable<void>;
+}
+
+/**
+ * 複数のLinearアカウント（ワークスペース）を管理する
+ * - アカウントの一覧と選択中のアカウントはglobalStateに保存する
+ * - APIキーはアカウントごとにSecretStorageに保存する
+ *   （設定のlinear.apiTokenは同期やdotfilesで平文のまま共有されるため使用しない）
+ */
+export class AccountService {
+  private readonly ACCOUNTS_KEY = "linearAccounts";
+  private readonly ACTIVE_ACCOUNT_KEY = "linearActiveAccountId";
+  private readonly SECRET_KEY_PREFIX = "linear.apiToken:";
+  // 複数アカウントに対応する前の保存先
+  private readonly LEGACY_SECRET_KEY = "linear.apiToken";
+  private readonly LEGACY_ACCOUNT_ID = "default";
+
+  private secrets: vscode.SecretStorage;
+  private storage: vscode.Memento;
+  private _onDidChangeActiveAccount = new vscode.EventEmitter<
+    LinearAccount | undefined
+  >();
+  private _onDidChangeAccounts = new vscode.EventEmitter<void>();
+
+  /**
+   * 選択中のアカウントが切り替わったときに発火する
+   */
+  readonly onDidChangeActiveAccount: vscode.Event<LinearAccount | undefined> =
+    this._onDidChangeActiveAccount.event;
+
+  /**
+   * アカウントが追加・削除されたときに発火する
+   */
+  readonly onDidChangeAccounts: vscode.Event<void> =
+    this._onDidChangeAccounts.event;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private readonly oauthSessions: OAuthSessionSource
+  ) {
+    this.secrets = context.secrets;
+    this.storage = context.globalState;
+    context.subscriptions.push(
+      this._onDidChangeActiveAccount,
+      this._onDidChangeAccounts
+    );
+  }
+
+  public getAccounts(): LinearAccount[] {
+    return this.storage.get<LinearAccount[]>(this.ACCOUNTS_KEY) ?? [];
+  }
+
+  /**
+   * 選択中のアカウントを返す
+   * 未選択の場合は最初のアカウントとする
+   */
+  public getActiveAccount(): LinearAccount | undefined {
+    const accounts = this.getAccounts();
+    const activeId = this.storage.get<string>(this.ACTIVE_ACCOUNT_KEY);
+    return accounts.find((a) => a.id === activeId) ?? accounts[0];
+  }
+
+  public async setActiveAccount(accountId: string): Promise<void> {
+    const account = this.getAccounts().find((a) => a.id === accountId);
+    if (!account) {
+      throw new Error(`Unknown Linear account: ${accountId}`);
+    }
+    await this.storage.update(this.ACTIVE_ACCOUNT_KEY, accountId);
+    this._onDidChangeActiveAccount.fire(account);
+  }
+
+  /**
+   * アカウントの認証情報を取得する
+   * @returns 認証情報が失われている場合はundefined
+   */
+  public async getCredential(
+    account: LinearAccount
+  ): Promise<LinearCredential | undefined> {
+    if (account.type === "apiKey") {
+      const apiKey = await this.secrets.get(this.getSecretKey(account.id));
+      return apiKey ? { apiKey } : undefined;
+    }
+
+    const sessions = await this.oauthSessions.getSessions();
+    const session = sessions.find((s) => s.account.id === account.id);
+    return session ? { accessToken: session.accessToken } : undefined;
+  }
+
+  /**
+   * APIキーを検証し、アカウントとして追加する
+   * 同じユーザーのアカウントが既にある場合は置き換える
+   * @throws APIキーが無効な場合
+   */
+  public async addApiKeyAccount(apiKey: string): Promise<LinearAccount> {
+    const account = await this.describeAccount({ apiKey }, "apiKey");
+    await this.secrets.store(this.getSecretKey(account.id), apiKey);
+    await this.saveAccount(account);
+    return account;
+  }
+
+  /**
+   * OAuthのセッションをアカウントとして追加する
+   */
+  public async addOAuthAccount(
+    session: vscode.AuthenticationSession
+  ): Promise<LinearAccount> {
+    const account = await this.describeAccount(
+      { accessToken: session.accessToken },
+      "oauth"
+    );
+    await this.saveAccount(account);
+    return account;
+  }
+
+  /**
+   * アカウントと保存されている認証情報を削除する
+   * 選択中のアカウントを削除した場合は残りの先頭のアカウントに切り替える
+   */
+  public async removeAccount(accountId: string): Promise<void> {
+    const account = this.getAccounts().find((a) => a.id === accountId);
+    if (!account) {
+      return;
+    }
+    const wasActive = this.getActiveAccount()?.id === accountId;
+
+    if (account.type === "apiKey") {
+      await this.secrets.delete(this.getSecretKey(accountId));
+    } else {
+      const sessions = await this.oauthSessions.getSessions();
+      for (const session of sessions.filter(
+        (s) => s.account.id === accountId
+      )) {
+        await this.oauthSessions.removeSession(session.id);
+      }
+    }
+
+    const remaining = this.getAccounts().filter((a) => a.id !== accountId);
+    await this.storage.update(this.ACCOUNTS_KEY, remaining);
+    this._onDidChangeAccounts.fire();
+
+    if (wasActive) {
+      await this.storage.update(this.ACTIVE_ACCOUNT_KEY, remaining[0]?.id);
+      this._onDidChangeActiveAccount.fire(remaining[0]);
+    }
+  }
+
+  /**
+   * 以前の保存形式からアカウントを作成する
+   * - 設定（linear.apiToken）または単一のSecretStorageに保存されたAPIキー
+   * - アカウントとして登録されていないOAuthのセッション
+   * @returns APIキーから作成・更新したアカウント
+   */
+  public async migrateLegacyCredentials(): Promise<LinearAccount | undefined> {
+    const legacyToken =
+      (await this.takeTokenFromSettings()) ||
+      (await this.secrets.get(this.LEGACY_SECRET_KEY));
+    const migrated = legacyToken
+      ? await this.migrateLegacyToken(legacyToken)
+      : undefined;
+
+    const known = new Set(this.getAccounts().map((a) => a.id));
+    for (const session of await this.oauthSessions.getSessions()) {
+      if (!known.has(session.account.id)) {
+        await this.saveAccount({
+          id: session.account.id,
+          label: session.account.label,
+          type: "oauth",
+        });
+      }
+    }
+    return migrated;
+  }
+
+  /**
+   * 以前のAPIキーをアカウントとして登録する
+   * 起動時にオフラインの場合もあるため、検証できない場合は仮のアカウントとして登録する
+   */
+  private async migrateLegacyToken(apiKey: string): Promise<LinearAccount> {
+    let account: LinearAccount;
+    try {
+      account = await this.describeAccount({ apiKey }, "apiKey");
+    } catch (error) {
+      logger.error("Failed to describe migrated Linear account", error);
+      account = { id: this.LEGACY_ACCOUNT_ID, label: "Linear", type: "apiKey" };
+    }
+
+    // 同じアカウントが登録済みの場合はトークンを置き換える
+    await this.secrets.store(this.getSecretKey(account.id), apiKey);
+    await this.saveAccount(account);
+    await this.secrets.delete(this.LEGACY_SECRET_KEY);
+    logger.info("Migrated Linear API token to an account", {
+      accountId: account.id,
+    });
+    return account;
+  }
+
+  /**
+   * 設定に保存されている旧来のトークンを取り出し、設定から削除する
+   */
+  private async takeTokenFromSettings(): Promise<string | undefined> {
+    const config = vscode.workspace.getConfiguration("linear");
+    const inspected = config.inspect<string>("apiToken");
+    const legacyToken =
+      inspected?.workspaceFolderValue ||
+      inspected?.workspaceValue ||
+      inspected?.globalValue;
+    if (!legacyToken) {
+      return undefined;
+    }
+
+    // 平文のトークンを設定から取り除く
+    const targets: [string | undefined, vscode.ConfigurationTarget][] = [
+      [inspected?.globalValue, vscode.ConfigurationTarget.Global],
+      [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+      [
+        inspected?.workspaceFolderValue,
+        vscode.ConfigurationTarget.WorkspaceFolder,
+      ],
+    ];
+    for (const [value, target] of targets) {
+      if (value === undefined) {
+        continue;
+      }
+      try {
+        await config.update("apiToken", undefined, target);
+      } catch (error) {
+        logger.error("Failed to remove apiToken from settings", error);
+      }
+    }
+
+    vscode.window.showInformationMessage(
+      "Your Linear API token was moved from settings to secure storage."
+    );
+    return legacyToken;
+  }
+
+  /**
+   * viewerクエリで認証情報を検証し、アカウント情報を取得する
+   */
+  private async describeAccount(
+    credential: LinearCredential,
+    type: LinearAccount["type"]
+  ): Promise<LinearAccount> {
+    const viewer = await createLinearClient(credential).viewer;
+    const organization = await viewer.organization;
+    return {
+      id: viewer.id,
+      label: viewer.email || viewer.name,
+      type,
+      organization: {
+        id: organization.id,
+        name: organization.name,
+        urlKey: organization.urlKey,
+      },
+    };
+  }
+
+  private async saveAccount(account: LinearAccount): Promise<void> {
+    const accounts = this.getAccounts();
+    const previous = accounts.find((a) => a.id === account.id);
+    // APIキーからOAuthへの切り替えなど、保存先が変わった場合は古い認証情報を削除する
+    if (previous?.type === "apiKey" && account.type !== "apiKey") {
+      await this.secrets.delete(this.getSecretKey(account.id));
+    }
+    await this.storage.update(
+      this.ACCOUNTS_KEY,
+      previous
+        ? accounts.map((a) => (a.id === account.id ? account : a))
+        : [...accounts, account]
+    );
+    this._onDidChangeAccounts.fire();
+  }
+
+  private getSecretKey(accountId: string): string {
+    return `${this.SECRET_KEY_PREFIX}${accountId}`;
+  }
+}
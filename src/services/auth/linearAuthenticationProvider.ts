@@ -0,0 +1,469 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import {
+  createPkcePair,
+  getOAuthConfig,
+  LinearOAuthClient,
+  OAuthRequestError,
+  OAuthTokenResponse,
+} from "./linearOAuthClient";
+import { createLinearClient } from "../linearService";
+import { Logger } from "../logging/logger";
+
+const logger = new Logger("Auth");
+
+export const LINEAR_AUTH_PROVIDER_ID = "linear";
+export const LINEAR_OAUTH_SCOPES = ["read", "write"];
+
+/**
+ * SecretStorageに保存するOAuthセッション
+ */
+interface StoredSession {
+  id: string;
+  accessToken: string;
+  refreshToken?: string;
+  // ミリ秒単位のアクセストークンの有効期限
+  expiresAt?: number;
+  account: { id: string; label: string };
+  scopes: string[];
+}
+
+/**
+ * 認可画面からのリダイレクトを待っている認可リクエスト
+ */
+interface PendingAuthorization {
+  state: string;
+  resolve: (code: string) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Linear OAuth 2.0（PKCE）による認証プロバイダー
+ * - 認可画面からのリダイレクトはURIハンドラー（vscode://<publisher>.<name>/oauth-callback）で受け取る
+ * - アクセストークンは有効期限の少し前にリフレッシュトークンで更新する
+ */
+export class LinearAuthenticationProvider
+  implements
+    vscode.AuthenticationProvider,
+    vscode.UriHandler,
+    vscode.Disposable
+{
+  private readonly SECRET_KEY = "linear.oauthSessions";
+  private readonly CALLBACK_PATH = "/oauth-callback";
+  private readonly AUTHORIZATION_TIMEOUT = 5 * 60 * 1000;
+  // 有効期限のこの時間前にトークンを更新する
+  private readonly REFRESH_MARGIN = 5 * 60 * 1000;
+  // 更新に一時的に失敗した場合の再試行間隔（失敗が続くごとに倍にし、上限で頭打ちにする）
+  private readonly REFRESH_RETRY_DELAY = 30 * 1000;
+  private readonly MAX_REFRESH_RETRY_DELAY = 30 * 60 * 1000;
+
+  private _onDidChangeSessions =
+    new vscode.EventEmitter<vscode.AuthenticationProviderAuthenticationSessionsChangeEvent>();
+  readonly onDidChangeSessions = this._onDidChangeSessions.event;
+
+  private pendingAuthorization?: PendingAuthorization;
+  private refreshTimer?: NodeJS.Timeout;
+  private refreshing?: Promise<StoredSession[]>;
+  private refreshFailures = 0;
+  // この時刻までは一時的な失敗の後のため、トークンの更新を試みない
+  private refreshRetryAt?: number;
+
+  constructor(private readonly context: vscode.ExtensionContext) {
+    this.scheduleRefresh().catch((e) =>
+      logger.error("Failed to schedule OAuth token refresh", e)
+    );
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.pendingAuthorization?.reject(new Error("Sign in was cancelled"));
+    this._onDidChangeSessions.dispose();
+  }
+
+  async getSessions(
+    scopes?: readonly string[]
+  ): Promise<vscode.AuthenticationSession[]> {
+    const sessions = await this.refreshExpiredSessions();
+    return sessions
+      .filter(
+        (s) => !scopes || scopes.every((scope) => s.scopes.includes(scope))
+      )
+      .map((s) => this.toAuthenticationSession(s));
+  }
+
+  async createSession(
+    scopes: readonly string[]
+  ): Promise<vscode.AuthenticationSession> {
+    const config = getOAuthConfig();
+    if (!config) {
+      throw new Error(
+        "Linear OAuth client ID is not configured (linear.oauth.clientId)"
+      );
+    }
+
+    const client = new LinearOAuthClient(config);
+    const requestedScopes = scopes.length > 0 ? scopes : LINEAR_OAUTH_SCOPES;
+    const { verifier, challenge } = createPkcePair();
+    const state = crypto.randomBytes(16).toString("hex");
+    const redirectUri = await this.getRedirectUri();
+
+    const code = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Signing in to Linear...",
+        cancellable: true,
+      },
+      async (_, token) => {
+        const codePromise = this.waitForAuthorizationCode(state, token);
+        await vscode.env.openExternal(
+          client.getAuthorizeUrl({
+            redirectUri,
+            scopes: requestedScopes,
+            state,
+            codeChallenge: challenge,
+          })
+        );
+        return codePromise;
+      }
+    );
+
+    const tokens = await client.exchangeCode(code, redirectUri, verifier);
+    const viewer = await createLinearClient({
+      accessToken: tokens.access_token,
+    }).viewer;
+
+    const session: StoredSession = {
+      id: crypto.randomBytes(16).toString("hex"),
+      ...this.fromTokenResponse(tokens),
+      account: { id: viewer.id, label: viewer.email || viewer.name },
+      scopes: this.parseScopes(tokens.scope) ?? [...requestedScopes],
+    };
+
+    // 1アカウントにつき1セッションのみ保持する
+    const existing = await this.readSessions();
+    const replaced = existing.filter((s) => s.account.id === viewer.id);
+    await this.writeSessions([
+      ...existing.filter((s) => s.account.id !== viewer.id),
+      session,
+    ]);
+
+    this._onDidChangeSessions.fire({
+      added: [this.toAuthenticationSession(session)],
+      removed: replaced.map((s) => this.toAuthenticationSession(s)),
+      changed: [],
+    });
+    return this.toAuthenticationSession(session);
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    const sessions = await this.readSessions();
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session) {
+      return;
+    }
+
+    await this.writeSessions(sessions.filter((s) => s.id !== sessionId));
+
+    // トークンの失効はベストエフォートで行う
+    const config = getOAuthConfig();
+    if (config) {
+      new LinearOAuthClient(config)
+        .revoke(session.accessToken)
+        .catch((e) => logger.error("Failed to revoke Linear OAuth token", e));
+    }
+
+    this._onDidChangeSessions.fire({
+      added: [],
+      removed: [this.toAuthenticationSession(session)],
+      changed: [],
+    });
+  }
+
+  /**
+   * 認可画面からのリダイレクトを処理する
+   */
+  handleUri(uri: vscode.Uri): void {
+    if (uri.path !== this.CALLBACK_PATH) {
+      return;
+    }
+
+    const params = new URLSearchParams(uri.query);
+    const pending = this.pendingAuthorization;
+    if (!pending || params.get("state") !== pending.state) {
+      logger.warn("Ignoring OAuth callback with unknown state");
+      return;
+    }
+
+    this.pendingAuthorization = undefined;
+    const error = params.get("error");
+    const code = params.get("code");
+    if (error || !code) {
+      pending.reject(
+        new Error(
+          `Linear authorization failed: ${
+            params.get("error_description") || error || "no code returned"
+          }`
+        )
+      );
+      return;
+    }
+    pending.resolve(code);
+  }
+
+  /**
+   * 認可コードを受け取るまで待つ
+   * キャンセル・タイムアウト・別の認可リクエストの開始で中断する
+   */
+  private waitForAuthorizationCode(
+    state: string,
+    cancellation: vscode.CancellationToken
+  ): Promise<string> {
+    this.pendingAuthorization?.reject(new Error("Another sign in was started"));
+
+    return new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        finish();
+        reject(new Error("Timed out waiting for Linear authorization"));
+      }, this.AUTHORIZATION_TIMEOUT);
+      const cancelListener = cancellation.onCancellationRequested(() => {
+        finish();
+        reject(new Error("Sign in was cancelled"));
+      });
+      const finish = () => {
+        clearTimeout(timer);
+        cancelListener.dispose();
+        if (this.pendingAuthorization?.state === state) {
+          this.pendingAuthorization = undefined;
+        }
+      };
+
+      this.pendingAuthorization = {
+        state,
+        resolve: (code) => {
+          finish();
+          resolve(code);
+        },
+        reject: (error) => {
+          finish();
+          reject(error);
+        },
+      };
+    });
+  }
+
+  private async getRedirectUri(): Promise<string> {
+    const { publisher, name } = this.context.extension.packageJSON;
+    const callbackUri = await vscode.env.asExternalUri(
+      vscode.Uri.parse(
+        `${vscode.env.uriScheme}://${publisher}.${name}${this.CALLBACK_PATH}`
+      )
+    );
+    return callbackUri.toString(true);
+  }
+
+  /**
+   * 有効期限が近いセッションのアクセストークンを更新する
+   * リフレッシュトークンが拒否されたセッションは削除し、一時的な失敗の場合は間隔を空けて再試行する
+   */
+  private refreshExpiredSessions(): Promise<StoredSession[]> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefreshExpiredSessions().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async doRefreshExpiredSessions(): Promise<StoredSession[]> {
+    const sessions = await this.readSessions();
+    const now = Date.now();
+    const expiring = sessions.filter(
+      (s) => s.expiresAt && s.expiresAt - now < this.REFRESH_MARGIN
+    );
+    if (expiring.length === 0) {
+      return sessions;
+    }
+
+    const config = getOAuthConfig();
+    const changed: StoredSession[] = [];
+    const removed: StoredSession[] = [];
+    const result: StoredSession[] = [];
+    const backingOff = !!this.refreshRetryAt && now < this.refreshRetryAt;
+    let failed = false;
+
+    for (const session of sessions) {
+      if (!expiring.includes(session)) {
+        result.push(session);
+        continue;
+      }
+      if (!config || !session.refreshToken) {
+        // 更新できないトークンは期限が切れるまで使う
+        if (session.expiresAt! > now) {
+          result.push(session);
+        } else {
+          removed.push(session);
+        }
+        continue;
+      }
+      if (backingOff) {
+        result.push(session);
+        continue;
+      }
+
+      try {
+        const tokens = await new LinearOAuthClient(config).refresh(
+          session.refreshToken
+        );
+        const refreshed = {
+          ...session,
+          ...this.fromTokenResponse(tokens),
+          refreshToken: tokens.refresh_token ?? session.refreshToken,
+        };
+        result.push(refreshed);
+        changed.push(refreshed);
+      } catch (error) {
+        if (isRefreshRejected(error)) {
+          // 再度サインインするまでこのセッションは使えない
+          logger.error("Linear OAuth refresh token was rejected", error);
+          removed.push(session);
+        } else {
+          // 通信エラーやサーバーの障害の場合は、セッションを残して後で再試行する
+          logger.error("Failed to refresh Linear OAuth token", error);
+          result.push(session);
+          failed = true;
+        }
+      }
+    }
+
+    if (failed) {
+      this.refreshFailures++;
+      this.refreshRetryAt =
+        now +
+        Math.min(
+          this.REFRESH_RETRY_DELAY * 2 ** (this.refreshFailures - 1),
+          this.MAX_REFRESH_RETRY_DELAY
+        );
+    } else if (!backingOff) {
+      this.refreshFailures = 0;
+      this.refreshRetryAt = undefined;
+    }
+
+    if (changed.length === 0 && removed.length === 0) {
+      // 保存内容は変わらないが、再試行の時刻に合わせて予約し直す
+      await this.scheduleRefresh();
+      return result;
+    }
+
+    await this.writeSessions(result);
+    this._onDidChangeSessions.fire({
+      added: [],
+      removed: removed.map((s) => this.toAuthenticationSession(s)),
+      changed: changed.map((s) => this.toAuthenticationSession(s)),
+    });
+    return result;
+  }
+
+  /**
+   * 最も早く期限が切れるセッションに合わせてトークンの更新を予約する
+   * 更新できないセッションは、期限が切れた時点で削除するよう予約する
+   */
+  private async scheduleRefresh(): Promise<void> {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+
+    const config = getOAuthConfig();
+    const sessions = (await this.readSessions()).filter((s) => s.expiresAt);
+    if (sessions.length === 0) {
+      return;
+    }
+
+    // 一時的な失敗の後は再試行の時刻まで待つ
+    const refreshAt = Math.min(
+      ...sessions.map((s) =>
+        config && s.refreshToken
+          ? Math.max(
+              s.expiresAt! - this.REFRESH_MARGIN,
+              this.refreshRetryAt ?? 0
+            )
+          : s.expiresAt!
+      )
+    );
+    // setTimeoutの上限（約24.8日）を超えないようにする
+    const delay = Math.min(Math.max(0, refreshAt - Date.now()), 2 ** 31 - 1);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshExpiredSessions().catch((e) =>
+        logger.error("Failed to refresh Linear OAuth tokens", e)
+      );
+    }, delay);
+  }
+
+  private fromTokenResponse(
+    tokens: OAuthTokenResponse
+  ): Pick<StoredSession, "accessToken" | "refreshToken" | "expiresAt"> {
+    return {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      expiresAt: tokens.expires_in
+        ? Date.now() + tokens.expires_in * 1000
+        : undefined,
+    };
+  }
+
+  private parseScopes(scope?: string | string[]): string[] | undefined {
+    if (!scope) {
+      return undefined;
+    }
+    return Array.isArray(scope) ? scope : scope.split(/[ ,]+/).filter(Boolean);
+  }
+
+  private toAuthenticationSession(
+    session: StoredSession
+  ): vscode.AuthenticationSession {
+    return {
+      id: session.id,
+      accessToken: session.accessToken,
+      account: session.account,
+      scopes: session.scopes,
+    };
+  }
+
+  private async readSessions(): Promise<StoredSession[]> {
+    const raw = await this.context.secrets.get(this.SECRET_KEY);
+    if (!raw) {
+      return [];
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      logger.error("Failed to parse stored Linear OAuth sessions", error);
+      return [];
+    }
+  }
+
+  private async writeSessions(sessions: StoredSession[]): Promise<void> {
+    await this.context.secrets.store(this.SECRET_KEY, JSON.stringify(sessions));
+    await this.scheduleRefresh();
+  }
+}
+
+/**
+ * リフレッシュトークンがトークンエンドポイントに拒否されたかを判定する
+ * レート制限とタイムアウト以外の4xxは、再試行しても成功しないものとして扱う
+ */
+function isRefreshRejected(error: unknown): boolean {
+  if (!(error instanceof OAuthRequestError)) {
+    return false;
+  }
+  return (
+    error.code === "invalid_grant" ||
+    (error.status >= 400 &&
+      error.status < 500 &&
+      error.status !== 408 &&
+      error.status !== 429)
+  );
+}
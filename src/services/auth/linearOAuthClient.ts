@@ -0,0 +1,204 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as http from "http";
+import * as https from "https";
+
+/**
+ * OAuthのトークンエンドポイントのレスポンス
+ */
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: string;
+  // 秒単位の有効期間
+  expires_in?: number;
+  scope?: string | string[];
+  refresh_token?: string;
+}
+
+/**
+ * OAuth 2.0 の設定
+ * エンドポイントは設定で差し替えられるため、ローカルの代替OAuthサーバーに向けることもできる
+ */
+export interface OAuthConfig {
+  clientId: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  revokeUrl: string;
+}
+
+/**
+ * OAuthのエンドポイントがエラーを返した場合の例外
+ * - status: HTTPステータスコード
+ * - code: レスポンスのerrorフィールド（invalid_grant など）
+ */
+export class OAuthRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string
+  ) {
+    super(message);
+    this.name = "OAuthRequestError";
+  }
+}
+
+const DEFAULT_AUTHORIZE_URL = "https://linear.app/oauth/authorize";
+const DEFAULT_TOKEN_URL = "https://api.linear.app/oauth/token";
+const DEFAULT_REVOKE_URL = "https://api.linear.app/oauth/revoke";
+
+/**
+ * 設定からOAuthの設定を読み込む
+ * @returns クライアントIDが未設定の場合はundefined
+ */
+export function getOAuthConfig(): OAuthConfig | undefined {
+  const config = vscode.workspace.getConfiguration("linear.oauth");
+  const clientId = config.get<string>("clientId");
+  if (!clientId) {
+    return undefined;
+  }
+  return {
+    clientId,
+    authorizeUrl: config.get<string>("authorizeUrl") || DEFAULT_AUTHORIZE_URL,
+    tokenUrl: config.get<string>("tokenUrl") || DEFAULT_TOKEN_URL,
+    revokeUrl: config.get<string>("revokeUrl") || DEFAULT_REVOKE_URL,
+  };
+}
+
+/**
+ * PKCEのcode_verifierとcode_challenge（S256）を生成する
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = crypto.randomBytes(32).toString("base64url");
+  const challenge = crypto
+    .createHash("sha256")
+    .update(verifier)
+    .digest("base64url");
+  return { verifier, challenge };
+}
+
+/**
+ * Linearのトークンエンドポイントとやり取りする
+ */
+export class LinearOAuthClient {
+  constructor(private readonly config: OAuthConfig) {}
+
+  /**
+   * 認可画面のURLを組み立てる
+   */
+  public getAuthorizeUrl(params: {
+    redirectUri: string;
+    scopes: readonly string[];
+    state: string;
+    codeChallenge: string;
+  }): vscode.Uri {
+    const url = new URL(this.config.authorizeUrl);
+    url.searchParams.set("client_id", this.config.clientId);
+    url.searchParams.set("redirect_uri", params.redirectUri);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("scope", params.scopes.join(","));
+    url.searchParams.set("state", params.state);
+    url.searchParams.set("code_challenge", params.codeChallenge);
+    url.searchParams.set("code_challenge_method", "S256");
+    url.searchParams.set("prompt", "consent");
+    return vscode.Uri.parse(url.toString());
+  }
+
+  /**
+   * 認可コードをアクセストークンに交換する
+   */
+  public exchangeCode(
+    code: string,
+    redirectUri: string,
+    codeVerifier: string
+  ): Promise<OAuthTokenResponse> {
+    return this.postForm(this.config.tokenUrl, {
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: codeVerifier,
+    });
+  }
+
+  /**
+   * リフレッシュトークンでアクセストークンを更新する
+   */
+  public refresh(refreshToken: string): Promise<OAuthTokenResponse> {
+    return this.postForm(this.config.tokenUrl, {
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      client_id: this.config.clientId,
+    });
+  }
+
+  /**
+   * アクセストークンを失効させる
+   */
+  public async revoke(accessToken: string): Promise<void> {
+    await this.postForm(this.config.revokeUrl, { token: accessToken });
+  }
+
+  /**
+   * application/x-www-form-urlencoded でPOSTし、JSONのレスポンスを返す
+   * VSCodeの実行環境によってはfetchが使えないため、http/httpsモジュールを使う
+   */
+  private postForm<T>(url: string, params: Record<string, string>): Promise<T> {
+    const target = new URL(url);
+    const body = new URLSearchParams(params).toString();
+    const transport = target.protocol === "http:" ? http : https;
+
+    return new Promise<T>((resolve, reject) => {
+      const request = transport.request(
+        target,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            "Content-Length": Buffer.byteLength(body),
+            Accept: "application/json",
+          },
+        },
+        (response) => {
+          const chunks: Buffer[] = [];
+          response.on("data", (chunk: Buffer) => chunks.push(chunk));
+          response.on("end", () => {
+            const text = Buffer.concat(chunks).toString("utf8");
+            const status = response.statusCode ?? 0;
+            if (status < 200 || status >= 300) {
+              reject(
+                new OAuthRequestError(
+                  `OAuth request to ${target.pathname} failed (${status}): ${text}`,
+                  status,
+                  parseErrorCode(text)
+                )
+              );
+              return;
+            }
+            try {
+              resolve((text ? JSON.parse(text) : {}) as T);
+            } catch (error) {
+              reject(new Error(`Invalid OAuth response: ${error}`));
+            }
+          });
+        }
+      );
+      request.on("error", reject);
+      request.setTimeout(30000, () =>
+        request.destroy(new Error("OAuth request timed out"))
+      );
+      request.end(body);
+    });
+  }
+}
+
+/**
+ * エラーレスポンスの本文からOAuthのエラーコードを取り出す
+ */
+function parseErrorCode(text: string): string | undefined {
+  try {
+    const body = JSON.parse(text);
+    return typeof body?.error === "string" ? body.error : undefined;
+  } catch {
+    return undefined;
+  }
+}
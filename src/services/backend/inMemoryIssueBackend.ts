@@ -0,0 +1,167 @@
+import * as vscode from "vscode";
+import { IssueSnapshot } from "../../models/issueSnapshot";
+import { matchesFilter } from "../../mock/mockFilter";
+import { MockLinearStore } from "../../mock/mockLinearStore";
+import { ProjectDto, TeamDto, WorkflowStateDto } from "../graphql/issueQueries";
+import {
+  FilterCriteria,
+  IssueListInfo,
+  buildIssueFilter,
+  toIssueSnapshot,
+} from "../linearService";
+import {
+  CreateIssueInput,
+  IssueBackend,
+  IssueComment,
+  IssueMember,
+  IssueMutationResult,
+  UpdateIssueInput,
+} from "./issueBackend";
+
+/**
+ * メモリ上のデータを読み書きするIssueBackend
+ * APIに接続せずにビューの動作を確認・テストするために使う
+ * フィルター条件はLinearServiceと同じGraphQLフィルターに変換してから評価する
+ */
+export class InMemoryIssueBackend implements IssueBackend, vscode.Disposable {
+  private _onDidChangeIssues = new vscode.EventEmitter<void>();
+  private _onDidChangeIssue = new vscode.EventEmitter<string>();
+  private _onDidPatchIssue = new vscode.EventEmitter<IssueSnapshot>();
+  private _onDidChangeConnectivity = new vscode.EventEmitter<boolean>();
+  private issueListInfo: Map<string, IssueListInfo> = new Map();
+
+  readonly onDidChangeIssues: vscode.Event<void> =
+    this._onDidChangeIssues.event;
+  readonly onDidChangeIssue: vscode.Event<string> =
+    this._onDidChangeIssue.event;
+  readonly onDidPatchIssue: vscode.Event<IssueSnapshot> =
+    this._onDidPatchIssue.event;
+  readonly onDidChangeConnectivity: vscode.Event<boolean> =
+    this._onDidChangeConnectivity.event;
+
+  readonly isOffline = false;
+
+  constructor(readonly store: MockLinearStore = new MockLinearStore()) {}
+
+  dispose(): void {
+    this._onDidChangeIssues.dispose();
+    this._onDidChangeIssue.dispose();
+    this._onDidPatchIssue.dispose();
+    this._onDidChangeConnectivity.dispose();
+  }
+
+  async getIssues(
+    includeCompleted: boolean = false,
+    additionalFilters: FilterCriteria = {}
+  ): Promise<IssueSnapshot[]> {
+    const filter = buildIssueFilter(includeCompleted, additionalFilters);
+    const issues = this.store.issues
+      .filter((issue) => !issue.archivedAt)
+      .filter((issue) => matchesFilter(this.store.toFilterable(issue), filter))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map((issue) => toIssueSnapshot(this.store.toIssueDto(issue)));
+
+    this.issueListInfo.set(
+      this.getListKey(includeCompleted, additionalFilters),
+      { total: issues.length, hasMore: false }
+    );
+    return issues;
+  }
+
+  getIssueListInfo(
+    includeCompleted: boolean = false,
+    additionalFilters: FilterCriteria = {}
+  ): IssueListInfo | undefined {
+    return this.issueListInfo.get(
+      this.getListKey(includeCompleted, additionalFilters)
+    );
+  }
+
+  async getIssueDetails(issueId: string): Promise<IssueSnapshot> {
+    return this.getSnapshot(issueId);
+  }
+
+  async getIssueComments(issueId: string): Promise<IssueComment[]> {
+    return this.store.getComments(issueId).map((comment) => ({
+      id: comment.id,
+      body: comment.body,
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+    }));
+  }
+
+  async addComment(issueId: string, content: string): Promise<boolean> {
+    this.store.createComment({ issueId, body: content });
+    this._onDidChangeIssue.fire(issueId);
+    return true;
+  }
+
+  async createIssue(input: CreateIssueInput): Promise<IssueMutationResult> {
+    const issue = this.store.createIssue(input);
+    this._onDidChangeIssues.fire();
+    return { success: true, issueId: issue.id };
+  }
+
+  async updateIssue(
+    issueId: string,
+    input: UpdateIssueInput
+  ): Promise<IssueMutationResult> {
+    const issue = this.store.updateIssue(issueId, input);
+    this._onDidPatchIssue.fire(this.getSnapshot(issue.id));
+    this._onDidChangeIssue.fire(issue.id);
+    return { success: true, issueId: issue.id };
+  }
+
+  async updateIssueState(
+    issueId: string,
+    stateId: string
+  ): Promise<IssueMutationResult> {
+    return this.updateIssue(issueId, { stateId });
+  }
+
+  async getTeams(): Promise<TeamDto[]> {
+    return this.store.teams;
+  }
+
+  async getWorkflowStates(teamId: string): Promise<WorkflowStateDto[]> {
+    return this.store
+      .getStates(teamId)
+      .map(({ teamId: _teamId, ...state }) => state);
+  }
+
+  async getProjects(): Promise<ProjectDto[]> {
+    return this.store.projects;
+  }
+
+  async getProject(projectId: string): Promise<ProjectDto | null> {
+    return this.store.getProject(projectId) ?? null;
+  }
+
+  async getLabels(): Promise<{ id: string; name: string }[]> {
+    return this.store.labels.map((label) => ({
+      id: label.id,
+      name: label.name,
+    }));
+  }
+
+  async getTeamMembers(teamId: string): Promise<IssueMember[]> {
+    return this.store
+      .getTeamMembers(teamId)
+      .map((member) => ({ id: member.id, name: member.name }));
+  }
+
+  private getSnapshot(issueId: string): IssueSnapshot {
+    const issue = this.store.getIssue(issueId);
+    if (!issue) {
+      throw new Error(`Issue ${issueId} not found`);
+    }
+    return toIssueSnapshot(this.store.toIssueDto(issue));
+  }
+
+  private getListKey(
+    includeCompleted: boolean,
+    additionalFilters: FilterCriteria
+  ): string {
+    return JSON.stringify({ includeCompleted, ...additionalFilters });
+  }
+}
@@ -0,0 +1,137 @@
+import * as vscode from "vscode";
+import { IssueSnapshot } from "../../models/issueSnapshot";
+import { ProjectDto, TeamDto, WorkflowStateDto } from "../graphql/issueQueries";
+import { FilterCriteria, IssueListInfo } from "../linearService";
+
+/**
+ * Issue作成時の入力
+ */
+export interface CreateIssueInput {
+  teamId: string;
+  title: string;
+  description?: string;
+  assigneeId?: string;
+  stateId?: string;
+}
+
+/**
+ * Issue更新時の入力（指定したフィールドのみ変更する）
+ */
+export interface UpdateIssueInput {
+  title?: string;
+  description?: string;
+  assigneeId?: string;
+  stateId?: string;
+}
+
+/**
+ * 変更操作の結果
+ * オフラインなどで送信をキューに積んだ場合、操作はundefinedを返す
+ */
+export interface IssueMutationResult {
+  success: boolean;
+  issueId?: string;
+}
+
+/**
+ * Issueのコメント
+ * 日時はAPIから取得した直後はDate、キャッシュから読み戻した場合は文字列になる
+ */
+export interface IssueComment {
+  id: string;
+  body: string;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  // オフライン中に追加し、まだ送信していないコメントの場合はtrue
+  pending?: boolean;
+}
+
+export interface IssueMember {
+  id: string;
+  name: string;
+}
+
+/**
+ * ビューが依存するIssueデータの取得・変更の窓口
+ * LinearService（SDK経由でAPIに接続）と InMemoryIssueBackend（メモリ上のデータ）が実装する
+ */
+export interface IssueBackend {
+  /**
+   * Issue一覧の内容が変わったときに発火する
+   */
+  readonly onDidChangeIssues: vscode.Event<void>;
+
+  /**
+   * 特定のIssue（詳細またはコメント）が変わったときにIssueIDを伴って発火する
+   */
+  readonly onDidChangeIssue: vscode.Event<string>;
+
+  /**
+   * 変更操作でIssueが書き換えられたときに変更後のIssueを伴って発火する
+   */
+  readonly onDidPatchIssue: vscode.Event<IssueSnapshot>;
+
+  /**
+   * オフライン状態が切り替わったときに発火する
+   */
+  readonly onDidChangeConnectivity: vscode.Event<boolean>;
+
+  readonly isOffline: boolean;
+
+  getIssues(
+    includeCompleted?: boolean,
+    additionalFilters?: FilterCriteria
+  ): Promise<IssueSnapshot[]>;
+
+  getIssueListInfo(
+    includeCompleted?: boolean,
+    additionalFilters?: FilterCriteria
+  ): IssueListInfo | undefined;
+
+  /**
+   * @param token 中断した場合、取得を打ち切って vscode.CancellationError で失敗する
+   */
+  getIssueDetails(
+    issueId: string,
+    token?: vscode.CancellationToken
+  ): Promise<IssueSnapshot>;
+
+  /**
+   * @param token 中断した場合、取得を打ち切って vscode.CancellationError で失敗する
+   */
+  getIssueComments(
+    issueId: string,
+    token?: vscode.CancellationToken
+  ): Promise<IssueComment[]>;
+
+  /**
+   * @returns 送信をキューに積んだ場合はfalse
+   */
+  addComment(issueId: string, content: string): Promise<boolean>;
+
+  createIssue(
+    input: CreateIssueInput
+  ): Promise<IssueMutationResult | undefined>;
+
+  updateIssue(
+    issueId: string,
+    input: UpdateIssueInput
+  ): Promise<IssueMutationResult | undefined>;
+
+  updateIssueState(
+    issueId: string,
+    stateId: string
+  ): Promise<IssueMutationResult | undefined>;
+
+  getTeams(): Promise<TeamDto[]>;
+
+  getWorkflowStates(teamId: string): Promise<WorkflowStateDto[]>;
+
+  getProjects(): Promise<ProjectDto[]>;
+
+  getProject(projectId: string): Promise<ProjectDto | null>;
+
+  getLabels(): Promise<{ id: string; name: string }[]>;
+
+  getTeamMembers(teamId: string): Promise<IssueMember[]>;
+}
@@ -0,0 +1,60 @@
+import type { PendingMutationInput } from "../offline/mutationQueue";
+
+/**
+ * 変更操作が送信された後に、キャッシュのどの値をどう扱うか
+ * Issue本体（詳細・一覧で共有するエンティティ）は送信前に書き換え済みのため含まない
+ */
+export interface CacheInvalidationPlan {
+  // 削除して、次回の表示時に取得し直すキー
+  evict: string[];
+  // 差分同期で最新にするIssue一覧のキー
+  sync: string[];
+}
+
+/**
+ * キャッシュされているIssue一覧の問い合わせ先（CacheService）
+ */
+export interface CacheReferenceLookup {
+  /**
+   * Issue一覧のキーを返す
+   */
+  getIssueListKeys(): string[];
+}
+
+/**
+ * 一覧に含まれるかどうかが変わりうるIssueのフィールド
+ * - stateId: 完了・キャンセルを除く一覧や、ステータスで絞り込んだ一覧
+ * - assigneeId: 自分にアサインされたIssueなど、担当者で絞り込んだ一覧
+ * タイトル・説明の変更で検索条件に一致しなくなった場合は、定期的な差分同期で反映する
+ */
+const LIST_MEMBERSHIP_FIELDS = ["stateId", "assigneeId"] as const;
+
+/**
+ * 変更操作の影響を受けるキャッシュを求める
+ * - createIssue: 作成したIssueがどの一覧に含まれるかは判定できないため、すべての一覧を差分同期する
+ * - updateIssue: 一覧に含まれるかどうかが変わりうる場合のみ、すべての一覧を差分同期する
+ *   （そのIssueを含んでいなかった一覧に新たに含まれるようになる場合があるため、作成時と同様に扱う）
+ * - addComment: そのIssueのコメントのみを削除する
+ */
+export function planCacheInvalidation(
+  mutation: PendingMutationInput,
+  lookup: CacheReferenceLookup
+): CacheInvalidationPlan {
+  switch (mutation.type) {
+    case "createIssue":
+      return { evict: [], sync: lookup.getIssueListKeys() };
+
+    case "updateIssue": {
+      const affectsLists = LIST_MEMBERSHIP_FIELDS.some(
+        (field) => mutation.input[field] !== undefined
+      );
+      return {
+        evict: [],
+        sync: affectsLists ? lookup.getIssueListKeys() : [],
+      };
+    }
+
+    case "addComment":
+      return { evict: [`comments:${mutation.issueId}`], sync: [] };
+  }
+}
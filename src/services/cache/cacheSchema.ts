@@ -0,0 +1,225 @@
+import type { CacheItem } from "./cacheService";
+import { SerializedEntityStore } from "./entityStore";
+
+/**
+ * 永続化するキャッシュの形式のバージョン
+ * 形式を変更する場合は値を上げ、MIGRATIONSに旧バージョンからの変換を追加する
+ * - 1: バージョンなし。キャッシュの値をそのまま保存し、エンティティは別のキー（linearEntities）に保存していた
+ * - 2: キャッシュの値とエンティティをまとめて、バージョン付きの形式で保存する
+ */
+export const CACHE_SCHEMA_VERSION = 2;
+
+/**
+ * 永続化するキャッシュの形式
+ */
+export interface PersistedCacheEnvelope {
+  version: number;
+  // 保存時の @linear/sdk のバージョン（SDKのモデルをそのまま保存している値の互換性の判定に使う）
+  sdkVersion?: string;
+  // 保存した時刻（エポックミリ秒）
+  savedAt: number;
+  entries: Record<string, CacheItem<any>>;
+  entities: SerializedEntityStore;
+}
+
+/**
+ * 永続化されていたキャッシュを読み込んだ結果
+ */
+export interface PersistedCacheReadResult {
+  entries: Record<string, CacheItem<any>>;
+  entities: SerializedEntityStore;
+  // 読み込めずに破棄したキャッシュのキー
+  discardedKeys: string[];
+  // 旧バージョンから変換した場合はtrue（現在の形式で保存し直す）
+  migrated: boolean;
+}
+
+/**
+ * 1つ前のバージョンの形式を次のバージョンの形式に変換する
+ * キーは変換元のバージョン
+ */
+const MIGRATIONS: Record<
+  number,
+  (envelope: PersistedCacheEnvelope) => PersistedCacheEnvelope
+> = {
+  // バージョン1はIssue一覧をIDのリストに変更する前の値（Issueの配列）が残っている場合がある
+  // Issueの配列からはエンティティを復元できないため破棄し、次回の表示時に取得し直す
+  1: (envelope) => ({
+    ...envelope,
+    version: 2,
+    entries: Object.fromEntries(
+      Object.entries(envelope.entries).filter(
+        ([key, item]) => !isIssueListKey(key) || isStringArray(item?.data)
+      )
+    ),
+  }),
+};
+
+// SDKのモデル（Team・WorkflowState・Project）をそのまま保存しているキーのプレフィックス
+const SDK_MODEL_PREFIXES = ["teams", "workflowStates", "projects"];
+
+/**
+ * 現在の @linear/sdk のバージョン
+ */
+export const LINEAR_SDK_VERSION: string | undefined = (() => {
+  try {
+    return require("@linear/sdk/package.json").version as string;
+  } catch {
+    return undefined;
+  }
+})();
+
+/**
+ * 永続化用の形式に変換する
+ */
+export function createCacheEnvelope(
+  entries: Record<string, CacheItem<any>>,
+  entities: SerializedEntityStore,
+  sdkVersion: string | undefined = LINEAR_SDK_VERSION
+): PersistedCacheEnvelope {
+  return {
+    version: CACHE_SCHEMA_VERSION,
+    sdkVersion,
+    savedAt: Date.now(),
+    entries,
+    entities,
+  };
+}
+
+/**
+ * 永続化されていたキャッシュを現在の形式に変換し、読み込める値だけを返す
+ * 新しいバージョンの拡張機能が保存した値など、変換できない場合はundefinedを返す
+ * @param raw linearCache に保存されていた値
+ * @param legacyEntities linearEntities に保存されていた値（バージョン1のみ）
+ * @param sdkVersion 現在の @linear/sdk のバージョン
+ */
+export function readPersistedCache(
+  raw: unknown,
+  legacyEntities?: unknown,
+  sdkVersion: string | undefined = LINEAR_SDK_VERSION
+): PersistedCacheReadResult | undefined {
+  const original = toEnvelope(raw, legacyEntities);
+  if (!original || original.version > CACHE_SCHEMA_VERSION) {
+    return undefined;
+  }
+
+  let envelope: PersistedCacheEnvelope = original;
+
+  const migrated = envelope.version < CACHE_SCHEMA_VERSION;
+  while (envelope.version < CACHE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[envelope.version];
+    if (!migrate) {
+      return undefined;
+    }
+    envelope = migrate(envelope);
+  }
+
+  // SDKのバージョンが変わった場合、SDKのモデルは形式が変わっている可能性があるため破棄する
+  const sdkChanged = envelope.sdkVersion !== sdkVersion;
+  const entries: Record<string, CacheItem<any>> = {};
+  const discardedKeys: string[] = [];
+  Object.entries(envelope.entries).forEach(([key, item]) => {
+    if (isValidEntry(key, item) && !(sdkChanged && isSdkModelKey(key))) {
+      entries[key] = item;
+    } else {
+      discardedKeys.push(key);
+    }
+  });
+
+  return {
+    entries,
+    entities: envelope.entities,
+    discardedKeys,
+    migrated,
+  };
+}
+
+/**
+ * 保存されていた値を変換前の形式として解釈する
+ * バージョンのない値はバージョン1とみなす
+ */
+function toEnvelope(
+  raw: unknown,
+  legacyEntities: unknown
+): PersistedCacheEnvelope | undefined {
+  if (!isObject(raw)) {
+    return undefined;
+  }
+
+  if (typeof raw.version === "number") {
+    if (!isObject(raw.entries)) {
+      return undefined;
+    }
+    return {
+      version: raw.version,
+      sdkVersion:
+        typeof raw.sdkVersion === "string" ? raw.sdkVersion : undefined,
+      savedAt: typeof raw.savedAt === "number" ? raw.savedAt : 0,
+      entries: raw.entries as Record<string, CacheItem<any>>,
+      entities: (isObject(raw.entities)
+        ? raw.entities
+        : {}) as SerializedEntityStore,
+    };
+  }
+
+  return {
+    version: 1,
+    // バージョン1はSDKのバージョンを記録していない
+    sdkVersion: undefined,
+    savedAt: 0,
+    entries: raw as Record<string, CacheItem<any>>,
+    entities: (isObject(legacyEntities)
+      ? legacyEntities
+      : {}) as SerializedEntityStore,
+  };
+}
+
+/**
+ * キャッシュの値が現在の形式で読み込めるかを判定する
+ */
+function isValidEntry(key: string, item: unknown): item is CacheItem<any> {
+  if (
+    !isObject(item) ||
+    !("data" in item) ||
+    typeof item.timestamp !== "number" ||
+    (item.lastUpdateId !== undefined && typeof item.lastUpdateId !== "string")
+  ) {
+    return false;
+  }
+  if (isIssueListKey(key)) {
+    return (
+      isStringArray(item.data) &&
+      (item.listInfo === undefined ||
+        (isObject(item.listInfo) &&
+          typeof item.listInfo.total === "number" &&
+          typeof item.listInfo.hasMore === "boolean"))
+    );
+  }
+  if (isSdkModelKey(key)) {
+    return (
+      Array.isArray(item.data) &&
+      item.data.every((entity) => isObject(entity) && isString(entity.id))
+    );
+  }
+  return true;
+}
+
+function isIssueListKey(key: string): boolean {
+  return key.startsWith("issues:");
+}
+
+function isSdkModelKey(key: string): boolean {
+  return SDK_MODEL_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString);
+}
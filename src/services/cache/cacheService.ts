@@ -1,24 +1,210 @@
 import * as vscode from "vscode";
+import { IssueSnapshot } from "../../models/issueSnapshot";
+import { EntityStore, EntityType, IssuePatch } from "./entityStore";
+import { createCacheEnvelope, readPersistedCache } from "./cacheSchema";
+import { CacheStorage, CacheStorageType } from "./cacheStorage";
+import { CacheReferenceLookup } from "./cacheInvalidation";
+import { Logger } from "../logging/logger";
+import type { IssueListInfo } from "../linearService";
+
+const logger = new Logger("Cache");
 
 export interface CacheItem<T> {
   data: T;
   timestamp: number;
   lastUpdateId?: string;
+  // 取得時の件数の情報（Issue一覧のみ）
+  listInfo?: IssueListInfo;
+}
+
+/**
+ * キーの名前空間（キーの「:」より前の部分。issues、comments など）ごとの使用状況
+ */
+export interface CacheNamespaceMetrics {
+  namespace: string;
+  entries: number;
+  // JSONに変換したときのおおよその文字数
+  size: number;
+  limit: number;
+}
+
+/**
+ * キャッシュされている値の情報（キャッシュの内容の確認に使う）
+ */
+export interface CacheEntryInfo {
+  key: string;
+  namespace: string;
+  // 保存した時刻（エポックミリ秒）
+  timestamp: number;
+  // 最後に取得したときの有効期限（ミリ秒。0は期限なし、未取得の場合は既定の有効期限）
+  ttl: number;
+  size: number;
+  lastUpdateId?: string;
+  // 永続化の対象の場合はtrue
+  persisted: boolean;
 }
 
-export class CacheService {
+/**
+ * キャッシュの使用状況（診断情報として表示する）
+ */
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  // 有効期限切れで取得できなかった回数
+  expired: number;
+  // 件数・サイズの上限を超えたため削除した件数
+  evictions: number;
+  // 定期的な掃除で削除した件数
+  swept: number;
+  // 永続ストレージへの書き込み回数
+  persists: number;
+  entries: number;
+  size: number;
+  maxSize: number;
+  // エンティティとして保持しているIssueの件数
+  issueEntities: number;
+  namespaces: CacheNamespaceMetrics[];
+}
+
+/**
+ * キー単位のキャッシュとエンティティを保持し、アカウントごとに永続化する
+ * - キーの名前空間ごとの件数と全体のサイズに上限を設け、超えた場合は最も長く使われていないキーから削除する
+ * - 一定時間より古い値は定期的に削除する
+ * - 永続化は短時間の変更をまとめて書き込む
+ */
+export class CacheService implements vscode.Disposable, CacheReferenceLookup {
+  // 挿入順が最後に使われた順になるよう、取得のたびに入れ直す
   private cache: Map<string, CacheItem<any>> = new Map();
-  private storageService: vscode.Memento;
+  // キーごとの値のおおよそのサイズ
+  private sizes: Map<string, number> = new Map();
+  // キーごとの最後に取得したときの有効期限
+  private ttls: Map<string, number> = new Map();
+  private totalSize = 0;
+  // Issueなどのエンティティ本体（一覧のキャッシュはIDのリストのみを保持する）
+  private entities = new EntityStore();
+  private storage: CacheStorage;
+  // アカウントごとに永続化先を分けるための名前空間
+  private namespace?: string;
   private readonly PERSIST_KEYS = [
     "issues",
     "teams",
     "workflowStates",
     "projects",
   ];
+  // キーの名前空間ごとの最大件数（指定のないものはDEFAULT_NAMESPACE_LIMIT）
+  private readonly NAMESPACE_LIMITS: Record<string, number> = {
+    issues: 30,
+    comments: 100,
+    project: 100,
+    workflowStates: 20,
+    teamMembers: 20,
+  };
+  private readonly DEFAULT_NAMESPACE_LIMIT = 50;
+  private readonly DEFAULT_TTL = 5 * 60 * 1000;
+  // キャッシュ全体のサイズの上限（JSONに変換したときの文字数）
+  private readonly MAX_TOTAL_SIZE = 10 * 1024 * 1024;
+  // オフライン時は期限切れの値も使うため、取得時の有効期限より長く保持する
+  private readonly MAX_STALE_AGE = 24 * 60 * 60 * 1000;
+  private readonly SWEEP_INTERVAL = 10 * 60 * 1000;
+  // 変更をまとめて永続化するまでの待ち時間
+  private readonly PERSIST_DELAY = 1000;
+
+  private sweepTimer?: NodeJS.Timeout;
+  private persistTimer?: NodeJS.Timeout;
+  private metrics = {
+    hits: 0,
+    misses: 0,
+    expired: 0,
+    evictions: 0,
+    swept: 0,
+    persists: 0,
+  };
 
-  constructor(context: vscode.ExtensionContext) {
-    this.storageService = context.globalState;
+  /**
+   * @param storage 永続化先
+   * @param namespace 永続化先の名前空間（アカウントID）
+   */
+  constructor(storage: CacheStorage, namespace?: string) {
+    this.storage = storage;
+    this.namespace = namespace;
     this.loadPersistedCache();
+    this.sweepTimer = setInterval(() => this.sweep(), this.SWEEP_INTERVAL);
+  }
+
+  /**
+   * 定期的な掃除を止め、未保存の変更を永続化する
+   */
+  dispose(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+    this.flush();
+  }
+
+  /**
+   * 名前空間を切り替える
+   * 現在のキャッシュの未保存の変更を永続化してから破棄し、切り替え先の永続化済みキャッシュを読み込む
+   * @param namespace 切り替え先の名前空間（アカウントID）
+   */
+  switchNamespace(namespace: string): void {
+    if (this.namespace === namespace) {
+      return;
+    }
+    this.flush();
+    this.clearMemory();
+    this.namespace = namespace;
+    this.loadPersistedCache();
+  }
+
+  /**
+   * 名前空間の永続化済みキャッシュを削除する（アカウントの削除時に使う）
+   * @param namespace 削除する名前空間
+   */
+  removeNamespace(namespace: string): void {
+    if (this.namespace === namespace) {
+      this.cancelPersist();
+      this.clearMemory();
+    }
+    this.storage
+      .remove(namespace)
+      .catch((e) => logger.error("Failed to remove persisted cache", e));
+  }
+
+  /**
+   * 永続化先を切り替える
+   * 現在の名前空間のキャッシュは切り替え先に移し、以前の保存先からは削除する
+   * 他の名前空間のキャッシュは、切り替え先に保存されていなければ破棄される
+   * @param storage 切り替え先
+   */
+  setStorage(storage: CacheStorage): void {
+    if (storage.type === this.storage.type) {
+      return;
+    }
+    logger.info(`Moving the cache to ${storage.type} storage`);
+    this.cancelPersist();
+    const previous = this.storage;
+    this.storage = storage;
+    // 削除は呼び出した時点で反映されるため、その後に保存した内容は消えない
+    previous
+      .remove(this.namespace)
+      .catch((e) => logger.error("Failed to remove persisted cache", e));
+    this.persistCache();
+  }
+
+  /**
+   * 使われなくなった名前空間の永続化済みキャッシュを削除する
+   * @param namespaces 保持する名前空間（サインイン済みのアカウントID）
+   */
+  compactStorage(namespaces: string[]): Promise<void> {
+    return this.storage.compact(namespaces);
+  }
+
+  /**
+   * 現在の永続化先の種類
+   */
+  get storageType(): CacheStorageType {
+    return this.storage.type;
   }
 
   /**
@@ -27,46 +213,35 @@ export class CacheService {
    * @param ttl ミリ秒単位の有効期限（デフォルト: 5分）
    * @returns キャッシュされた値、または期限切れの場合はnull
    */
-  get<T>(key: string, ttl: number = 5 * 60 * 1000): T | null {
+  get<T>(key: string, ttl: number = this.DEFAULT_TTL): T | null {
     const item = this.cache.get(key);
     if (!item) {
-      console.log(`Cache miss: ${key}`);
+      this.metrics.misses++;
+      logger.trace("Cache miss", { cacheKey: key });
       return null;
     }
+    this.ttls.set(key, ttl);
 
     if (ttl > 0 && Date.now() - item.timestamp > ttl) {
-      console.log(
-        `Cache expired: ${key}, age: ${(Date.now() - item.timestamp) / 1000}s`
-      );
-      this.cache.delete(key);
+      this.metrics.expired++;
+      logger.trace("Cache expired", {
+        cacheKey: key,
+        ageMs: Date.now() - item.timestamp,
+      });
+      this.removeEntry(key);
       return null;
     }
 
-    console.log(
-      `Cache hit: ${key}, age: ${(Date.now() - item.timestamp) / 1000}s`
-    );
+    this.metrics.hits++;
+    // 最後に使われたキーとして末尾に移動する
+    this.cache.delete(key);
+    this.cache.set(key, item);
 
-    // データの検証 (特にIssue配列の場合)
-    if (Array.isArray(item.data)) {
-      const itemCount = item.data.length;
-      console.log(`Cached array contains ${itemCount} items`);
-
-      // 先頭の数アイテムをサンプルとして検査
-      const sampleSize = Math.min(3, itemCount);
-      for (let i = 0; i < sampleSize; i++) {
-        const sample = item.data[i];
-        if (sample && typeof sample === "object") {
-          console.log(
-            `Sample item #${i}:`,
-            sample.id ? `id: ${sample.id.substring(0, 8)}...` : "no id",
-            sample.title
-              ? `title: ${sample.title.substring(0, 15)}...`
-              : "no title",
-            sample.state ? `state: ${typeof sample.state}` : "no state"
-          );
-        }
-      }
-    }
+    logger.trace("Cache hit", {
+      cacheKey: key,
+      ageMs: Date.now() - item.timestamp,
+      items: Array.isArray(item.data) ? item.data.length : undefined,
+    });
 
     return item.data as T;
   }
@@ -78,20 +253,185 @@ export class CacheService {
    * @param lastUpdateId 最後の更新ID
    */
   set<T>(key: string, data: T, lastUpdateId?: string): void {
-    console.log(
-      `Setting cache: ${key}`,
-      Array.isArray(data) ? `(${data.length} items)` : ""
-    );
+    logger.trace("Cache set", {
+      cacheKey: key,
+      items: Array.isArray(data) ? data.length : undefined,
+    });
 
+    // 値を入れ替えても、取得時の有効期限は引き継ぐ
+    const ttl = this.ttls.get(key);
+    this.removeEntry(key);
+    if (ttl !== undefined) {
+      this.ttls.set(key, ttl);
+    }
     this.cache.set(key, {
       data,
       timestamp: Date.now(),
       lastUpdateId,
     });
+    this.trackSize(key, data);
+    this.enforceLimits(this.getKeyNamespace(key));
 
     // 永続化が必要なキーの場合、保存する
     if (this.shouldPersist(key)) {
-      this.persistCache();
+      this.schedulePersist();
+    }
+  }
+
+  /**
+   * Issue一覧をキャッシュに設定する
+   * Issue本体はエンティティとして保存し、キーにはIDのリストのみを保存する
+   * @param key キー
+   * @param issues Issue一覧
+   * @param lastUpdateId 最後の更新ID
+   * @param listInfo 件数の情報（再読み込み後も残るよう、一覧と合わせて永続化する）
+   */
+  setIssueList(
+    key: string,
+    issues: IssueSnapshot[],
+    lastUpdateId?: string,
+    listInfo?: IssueListInfo
+  ): void {
+    issues.forEach((issue) => this.entities.upsertIssue(issue));
+    this.set(
+      key,
+      issues.map((issue) => issue.id),
+      lastUpdateId
+    );
+    const item = this.cache.get(key);
+    if (item && listInfo) {
+      item.listInfo = listInfo;
+    }
+  }
+
+  /**
+   * Issue一覧の件数の情報を取得する
+   * 件数の情報を保存していない一覧（以前のバージョンで保存したもの）は、保存しているIssueの件数とする
+   * @param key キー
+   * @returns 件数の情報、または一覧がキャッシュにない場合はundefined
+   */
+  getIssueListInfo(key: string): IssueListInfo | undefined {
+    const item = this.cache.get(key);
+    if (!item) {
+      return undefined;
+    }
+    return (
+      item.listInfo ?? {
+        total: Array.isArray(item.data) ? item.data.length : 0,
+        hasMore: false,
+      }
+    );
+  }
+
+  /**
+   * キャッシュからIssue一覧を取得する
+   * @param key キー
+   * @param ttl ミリ秒単位の有効期限（デフォルト: 5分）
+   * @returns Issue一覧、またはキャッシュがない場合はnull
+   */
+  getIssueList(key: string, ttl?: number): IssueSnapshot[] | null {
+    const ids = this.get<string[]>(key, ttl);
+    if (!ids) {
+      return null;
+    }
+    return ids
+      .map((id) => this.entities.getIssue(id))
+      .filter((issue): issue is IssueSnapshot => !!issue);
+  }
+
+  /**
+   * Issueを1件保存する
+   * @param issue 保存するIssue
+   */
+  setIssue(issue: IssueSnapshot): void {
+    this.entities.upsertIssue(issue);
+    this.schedulePersist();
+  }
+
+  /**
+   * 複数のIssueをまとめて保存する
+   * @param issues 保存するIssue
+   */
+  setIssues(issues: IssueSnapshot[]): void {
+    if (issues.length === 0) {
+      return;
+    }
+    issues.forEach((issue) => this.entities.upsertIssue(issue));
+    this.schedulePersist();
+  }
+
+  /**
+   * Issueを1件取得する
+   * @param id IssueのID
+   * @param ttl ミリ秒単位の有効期限（デフォルト: 5分）
+   * @returns Issue、または未保存・期限切れの場合はnull
+   */
+  getIssue(id: string, ttl: number = this.DEFAULT_TTL): IssueSnapshot | null {
+    const timestamp = this.entities.getIssueTimestamp(id);
+    if (timestamp === undefined) {
+      this.metrics.misses++;
+      return null;
+    }
+    if (ttl > 0 && Date.now() - timestamp > ttl) {
+      this.metrics.expired++;
+      return null;
+    }
+    this.metrics.hits++;
+    return this.entities.getIssue(id);
+  }
+
+  /**
+   * Issueの一部のフィールドを更新する
+   * 同じIssueを含むすべての一覧に即座に反映される
+   * @param id IssueのID
+   * @param patch 変更するフィールド
+   * @returns 更新後のIssue、未保存の場合はnull
+   */
+  patchIssue(id: string, patch: IssuePatch): IssueSnapshot | null {
+    const updated = this.entities.patchIssue(id, patch);
+    if (updated) {
+      this.schedulePersist();
+    }
+    return updated;
+  }
+
+  /**
+   * Issue以外のエンティティ（ステートやユーザーなど）を保存する
+   * @param type エンティティの種類
+   * @param entities 保存するエンティティ
+   */
+  setEntities<T extends { id: string }>(type: EntityType, entities: T[]): void {
+    entities.forEach((entity) => this.entities.upsert(type, entity));
+  }
+
+  /**
+   * Issue以外のエンティティを取得する
+   * @param type エンティティの種類
+   * @param id エンティティID
+   */
+  getEntity<T>(type: EntityType, id: string): T | undefined {
+    return this.entities.get<T>(type, id);
+  }
+
+  /**
+   * Issue一覧のキーを返す
+   */
+  getIssueListKeys(): string[] {
+    return Array.from(this.cache.keys()).filter((key) =>
+      this.isIssueListKey(key)
+    );
+  }
+
+  /**
+   * 値を変えずに保存時刻を現在に更新し、有効期限を延長する
+   * @param key キー
+   */
+  touch(key: string): void {
+    const item = this.cache.get(key);
+    if (item) {
+      item.timestamp = Date.now();
+      this.cache.delete(key);
+      this.cache.set(key, item);
     }
   }
 
@@ -103,10 +443,10 @@ export class CacheService {
     const keysToDelete = Array.from(this.cache.keys()).filter((k) =>
       k.startsWith(prefix)
     );
-    keysToDelete.forEach((key) => this.cache.delete(key));
+    keysToDelete.forEach((key) => this.removeEntry(key));
 
     if (keysToDelete.some((key) => this.shouldPersist(key))) {
-      this.persistCache();
+      this.schedulePersist();
     }
   }
 
@@ -115,10 +455,10 @@ export class CacheService {
    * @param key 削除するキー
    */
   delete(key: string): void {
-    this.cache.delete(key);
+    this.removeEntry(key);
 
     if (this.shouldPersist(key)) {
-      this.persistCache();
+      this.schedulePersist();
     }
   }
 
@@ -126,8 +466,8 @@ export class CacheService {
    * キャッシュをすべてクリアする
    */
   clear(): void {
-    this.cache.clear();
-    this.persistCache();
+    this.clearMemory();
+    this.schedulePersist();
   }
 
   /**
@@ -140,6 +480,219 @@ export class CacheService {
     return item?.lastUpdateId;
   }
 
+  /**
+   * 値を変えずに最終更新IDを更新する（差分同期で変更がなかった場合など）
+   * @param key キー
+   * @param lastUpdateId 最後の更新ID
+   */
+  setLastUpdateId(key: string, lastUpdateId: string): void {
+    const item = this.cache.get(key);
+    if (!item) {
+      return;
+    }
+    item.lastUpdateId = lastUpdateId;
+    if (this.shouldPersist(key)) {
+      this.schedulePersist();
+    }
+  }
+
+  /**
+   * キャッシュされているすべての値の情報を、最も長く使われていないものから順に返す
+   */
+  inspect(): CacheEntryInfo[] {
+    return Array.from(this.cache.entries()).map(([key, item]) => ({
+      key,
+      namespace: this.getKeyNamespace(key),
+      timestamp: item.timestamp,
+      ttl: this.ttls.get(key) ?? this.DEFAULT_TTL,
+      size: this.sizes.get(key) ?? 0,
+      lastUpdateId: item.lastUpdateId,
+      persisted: this.shouldPersist(key),
+    }));
+  }
+
+  /**
+   * キャッシュの使用状況を取得する
+   */
+  getMetrics(): CacheMetrics {
+    const namespaces = new Map<string, CacheNamespaceMetrics>();
+    this.cache.forEach((_, key) => {
+      const namespace = this.getKeyNamespace(key);
+      const metrics = namespaces.get(namespace) ?? {
+        namespace,
+        entries: 0,
+        size: 0,
+        limit: this.getNamespaceLimit(namespace),
+      };
+      metrics.entries++;
+      metrics.size += this.sizes.get(key) ?? 0;
+      namespaces.set(namespace, metrics);
+    });
+
+    return {
+      ...this.metrics,
+      entries: this.cache.size,
+      size: this.totalSize,
+      maxSize: this.MAX_TOTAL_SIZE,
+      issueEntities: this.entities.count("issues"),
+      namespaces: [...namespaces.values()].sort((a, b) =>
+        a.namespace.localeCompare(b.namespace)
+      ),
+    };
+  }
+
+  /**
+   * 未保存の変更があればすぐに永続化する
+   */
+  flush(): void {
+    if (!this.persistTimer) {
+      return;
+    }
+    this.cancelPersist();
+    this.persistCache();
+  }
+
+  /**
+   * 古い値と、どの一覧からも参照されていない古いIssueを削除する
+   */
+  private sweep(): void {
+    const threshold = Date.now() - this.MAX_STALE_AGE;
+    const staleKeys = Array.from(this.cache.entries())
+      .filter(([, item]) => item.timestamp < threshold)
+      .map(([key]) => key);
+    staleKeys.forEach((key) => this.removeEntry(key));
+
+    const prunedIssues = this.entities.pruneIssues(
+      this.getReferencedIssueIds(),
+      threshold
+    );
+
+    const removed = staleKeys.length + prunedIssues;
+    if (removed === 0) {
+      return;
+    }
+    this.metrics.swept += removed;
+    logger.debug("Swept stale cache entries", {
+      entries: staleKeys.length,
+      issues: prunedIssues,
+    });
+    this.schedulePersist();
+  }
+
+  /**
+   * 名前空間の件数の上限と全体のサイズの上限を超えた分を、最も長く使われていないキーから削除する
+   * @param namespace 値を追加したキーの名前空間
+   */
+  private enforceLimits(namespace: string): void {
+    const keys = Array.from(this.cache.keys()).filter(
+      (key) => this.getKeyNamespace(key) === namespace
+    );
+    const overflow = keys.length - this.getNamespaceLimit(namespace);
+    const evicted = overflow > 0 ? keys.slice(0, overflow) : [];
+
+    for (const key of this.cache.keys()) {
+      if (this.totalSize - this.sumSizes(evicted) <= this.MAX_TOTAL_SIZE) {
+        break;
+      }
+      if (!evicted.includes(key)) {
+        evicted.push(key);
+      }
+    }
+    if (evicted.length === 0) {
+      return;
+    }
+
+    evicted.forEach((key) => this.removeEntry(key));
+    this.metrics.evictions += evicted.length;
+    logger.debug("Evicted cache entries", {
+      namespace,
+      entries: evicted.length,
+      size: this.totalSize,
+    });
+    if (evicted.some((key) => this.shouldPersist(key))) {
+      this.schedulePersist();
+    }
+  }
+
+  private sumSizes(keys: string[]): number {
+    return keys.reduce((sum, key) => sum + (this.sizes.get(key) ?? 0), 0);
+  }
+
+  /**
+   * キーの名前空間（「:」より前の部分）を返す
+   */
+  private getKeyNamespace(key: string): string {
+    const index = key.indexOf(":");
+    return index === -1 ? key : key.substring(0, index);
+  }
+
+  private getNamespaceLimit(namespace: string): number {
+    return this.NAMESPACE_LIMITS[namespace] ?? this.DEFAULT_NAMESPACE_LIMIT;
+  }
+
+  /**
+   * 値のおおよそのサイズを記録する
+   */
+  private trackSize(key: string, data: unknown): void {
+    let size = 0;
+    try {
+      size = JSON.stringify(data)?.length ?? 0;
+    } catch {
+      // 循環参照などで変換できない値はサイズを数えない
+    }
+    this.sizes.set(key, size);
+    this.totalSize += size;
+  }
+
+  private removeEntry(key: string): void {
+    this.cache.delete(key);
+    this.totalSize -= this.sizes.get(key) ?? 0;
+    this.sizes.delete(key);
+    this.ttls.delete(key);
+  }
+
+  private clearMemory(): void {
+    this.cache.clear();
+    this.sizes.clear();
+    this.ttls.clear();
+    this.totalSize = 0;
+    this.entities.clear();
+  }
+
+  /**
+   * 一覧から参照されているIssueのIDを返す
+   */
+  private getReferencedIssueIds(): Set<string> {
+    const ids = new Set<string>();
+    this.cache.forEach((value, key) => {
+      if (this.isIssueListKey(key)) {
+        (value.data as string[]).forEach((id) => ids.add(id));
+      }
+    });
+    return ids;
+  }
+
+  /**
+   * 永続化を予約する
+   * 予約済みの場合は、その書き込みにまとめる
+   */
+  private schedulePersist(): void {
+    if (this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = undefined;
+      this.persistCache();
+    }, this.PERSIST_DELAY);
+  }
+
+  private cancelPersist(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+    }
+  }
+
   /**
    * キーが永続化の対象かどうかを判定する
    * @param key キー
@@ -154,33 +707,88 @@ export class CacheService {
    */
   private persistCache(): void {
     const persistData: Record<string, CacheItem<any>> = {};
+    // 永続化する一覧から参照されているIssueのみを保存する
+    const referencedIssueIds = new Set<string>();
 
     this.cache.forEach((value, key) => {
       if (this.shouldPersist(key)) {
         persistData[key] = value;
+        if (this.isIssueListKey(key)) {
+          (value.data as string[]).forEach((id) => referencedIssueIds.add(id));
+        }
       }
     });
 
-    this.storageService.update("linearCache", persistData);
+    this.metrics.persists++;
+    this.storage
+      .save(
+        this.namespace,
+        createCacheEnvelope(
+          persistData,
+          this.entities.serialize(referencedIssueIds)
+        )
+      )
+      .catch((e) => logger.error("Failed to persist cache", e));
+  }
+
+  /**
+   * キーがIssue一覧（IDのリスト）を保持するものかを判定する
+   * @param key キー
+   */
+  private isIssueListKey(key: string): boolean {
+    return key.startsWith("issues:");
   }
 
   /**
    * 永続ストレージからキャッシュを読み込む
+   * 旧バージョンの形式は現在の形式に変換し、読み込めない値は破棄する
    */
   private loadPersistedCache(): void {
-    const persistedData =
-      this.storageService.get<Record<string, CacheItem<any>>>("linearCache");
+    const stored = this.storage.load(this.namespace);
+    if (!stored) {
+      return;
+    }
+
+    const result = readPersistedCache(stored.cache, stored.legacyEntities);
+    if (!result) {
+      logger.warn("Discarding unreadable persisted cache", {
+        version: (stored.cache as { version?: unknown } | null)?.version,
+      });
+      this.storage
+        .remove(this.namespace)
+        .catch((e) => logger.error("Failed to remove persisted cache", e));
+      return;
+    }
 
-    console.log(
-      "Loading cache:",
-      persistedData ? Object.keys(persistedData).length : 0,
-      "items"
+    logger.debug("Loading persisted cache", {
+      entries: Object.keys(result.entries).length,
+      discarded: result.discardedKeys.length,
+      migrated: result.migrated,
+    });
+    result.discardedKeys.forEach((key) =>
+      logger.warn("Discarding incompatible persisted cache", { cacheKey: key })
     );
 
-    if (persistedData) {
-      Object.entries(persistedData).forEach(([key, value]) => {
+    this.entities.load(result.entities);
+    // 古いものから順に入れ、最後に使われた順を保存時刻の順で近似する
+    Object.entries(result.entries)
+      .sort(([, a], [, b]) => a.timestamp - b.timestamp)
+      .forEach(([key, value]) => {
         this.cache.set(key, value);
+        this.trackSize(key, value.data);
       });
+    // 上限を設ける前に保存されたキャッシュは上限を超えている場合がある
+    new Set(
+      Object.keys(result.entries).map((key) => this.getKeyNamespace(key))
+    ).forEach((namespace) => this.enforceLimits(namespace));
+
+    // 旧バージョンから変換した場合や破棄した値がある場合は、現在の形式・保存先に保存し直す
+    if (
+      result.migrated ||
+      result.discardedKeys.length > 0 ||
+      stored.fromFallback
+    ) {
+      this.persistCache();
     }
   }
 }
@@ -0,0 +1,308 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { PersistedCacheEnvelope } from "./cacheSchema";
+import { Logger } from "../logging/logger";
+
+const logger = new Logger("CacheStorage");
+
+/**
+ * linear.cacheStorage で指定できる保存先
+ * - file: globalStorageUri 配下のファイル（名前空間ごとに1ファイル）
+ * - memento: VSCodeの globalState
+ */
+export type CacheStorageType = "file" | "memento";
+
+/**
+ * 永続化されていたキャッシュ
+ * - cache: キャッシュ本体（バージョン付きの形式、または旧形式の値）
+ * - legacyEntities: 旧形式でキャッシュとは別に保存していたエンティティ
+ * - fromFallback: 以前の保存先（globalState）から読み込んだ場合はtrue（現在の保存先に保存し直す）
+ */
+export interface StoredCache {
+  cache: unknown;
+  legacyEntities?: unknown;
+  fromFallback?: boolean;
+}
+
+/**
+ * キャッシュの永続化先
+ * 名前空間（アカウントID）ごとに独立して保存する
+ */
+export interface CacheStorage {
+  readonly type: CacheStorageType;
+
+  /**
+   * 永続化されていたキャッシュを読み込む
+   * @returns 保存されていない場合はundefined
+   */
+  load(namespace?: string): StoredCache | undefined;
+
+  /**
+   * キャッシュを保存する（旧形式の値は削除する）
+   */
+  save(
+    namespace: string | undefined,
+    envelope: PersistedCacheEnvelope
+  ): Promise<void>;
+
+  /**
+   * 名前空間のキャッシュを削除する
+   * 保存先への反映は非同期だが、呼び出した時点で以降のloadには反映される
+   */
+  remove(namespace?: string): Promise<void>;
+
+  /**
+   * 指定した名前空間以外のキャッシュを削除する（削除済みのアカウントの分など）
+   * @param namespaces 保持する名前空間（サインイン済みのアカウントID）
+   */
+  compact(namespaces: string[]): Promise<void>;
+}
+
+/**
+ * globalState に保存する
+ */
+export class MementoCacheStorage implements CacheStorage {
+  readonly type = "memento";
+
+  constructor(private readonly memento: vscode.Memento) {}
+
+  load(namespace?: string): StoredCache | undefined {
+    const cache = this.memento.get<unknown>(
+      this.getKey("linearCache", namespace)
+    );
+    if (cache === undefined) {
+      return undefined;
+    }
+    return {
+      cache,
+      legacyEntities: this.memento.get<unknown>(
+        this.getKey("linearEntities", namespace)
+      ),
+    };
+  }
+
+  async save(
+    namespace: string | undefined,
+    envelope: PersistedCacheEnvelope
+  ): Promise<void> {
+    const entitiesKey = this.getKey("linearEntities", namespace);
+    await Promise.all([
+      this.memento.update(this.getKey("linearCache", namespace), envelope),
+      this.memento.get(entitiesKey) !== undefined
+        ? this.memento.update(entitiesKey, undefined)
+        : undefined,
+    ]);
+  }
+
+  async remove(namespace?: string): Promise<void> {
+    await Promise.all(
+      ["linearCache", "linearEntities"]
+        .map((base) => this.getKey(base, namespace))
+        .filter((key) => this.memento.get(key) !== undefined)
+        .map((key) => this.memento.update(key, undefined))
+    );
+  }
+
+  async compact(namespaces: string[]): Promise<void> {
+    const keep = new Set(namespaces);
+    const unused = this.memento.keys().filter((key) => {
+      const match = /^linear(?:Cache|Entities):(.+)$/.exec(key);
+      return !!match && !keep.has(match[1]);
+    });
+    await Promise.all(unused.map((key) => this.memento.update(key, undefined)));
+  }
+
+  /**
+   * 名前空間を含めた保存先のキーを返す
+   */
+  private getKey(base: string, namespace?: string): string {
+    return namespace ? `${base}:${namespace}` : base;
+  }
+}
+
+/**
+ * globalStorageUri 配下に名前空間ごとのJSONファイルとして保存する
+ * - 一時ファイルに書き込んでから置き換えるため、書き込み中に終了しても以前の内容が残る
+ * - 同じファイルへの書き込みは順番に行い、待っている間に新しい内容が来た場合は最新のものだけを書き込む
+ * - ファイルがない名前空間は globalState の値を読み込み、ファイルに保存した後に globalState から削除する
+ */
+export class FileCacheStorage implements CacheStorage {
+  readonly type = "file";
+
+  private readonly TEMP_SUFFIX = ".tmp";
+
+  // ファイルごとの書き込み中の処理
+  private writing: Map<string, Promise<void>> = new Map();
+  // ファイルごとの書き込み待ちの内容（最新のもののみ）
+  private queued: Map<string, string | undefined> = new Map();
+  // 書き込みが終わっていないファイルの最新の内容（読み込み時はファイルより優先する）
+  private unwritten: Map<string, string | undefined> = new Map();
+
+  constructor(
+    private readonly directory: string,
+    private readonly fallback: MementoCacheStorage
+  ) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  load(namespace?: string): StoredCache | undefined {
+    const file = this.getFile(namespace);
+    let content: string | undefined;
+    if (this.unwritten.has(file)) {
+      content = this.unwritten.get(file);
+    } else {
+      try {
+        content = fs.readFileSync(file, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          logger.error("Failed to read cache file", error, { file });
+        }
+      }
+    }
+    if (content === undefined) {
+      const stored = this.fallback.load(namespace);
+      return stored && { ...stored, fromFallback: true };
+    }
+
+    try {
+      return { cache: JSON.parse(content) };
+    } catch (error) {
+      logger.warn("Discarding corrupted cache file", { file });
+      return undefined;
+    }
+  }
+
+  async save(
+    namespace: string | undefined,
+    envelope: PersistedCacheEnvelope
+  ): Promise<void> {
+    // globalState から読み込んだ値はファイルに移したので削除する
+    await Promise.all([
+      this.write(this.getFile(namespace), JSON.stringify(envelope)),
+      this.fallback.remove(namespace),
+    ]);
+  }
+
+  async remove(namespace?: string): Promise<void> {
+    await Promise.all([
+      this.write(this.getFile(namespace), undefined),
+      this.fallback.remove(namespace),
+    ]);
+  }
+
+  /**
+   * 使われなくなったファイルを削除する
+   * 書き込み途中で終了した一時ファイルと、どのアカウントにも対応しないファイルが対象
+   */
+  async compact(namespaces: string[]): Promise<void> {
+    await this.fallback.compact(namespaces);
+
+    const keep = new Set(
+      namespaces.map((namespace) => this.getFile(namespace))
+    );
+    const names = await fs.promises.readdir(this.directory);
+
+    for (const name of names) {
+      const file = path.join(this.directory, name);
+      const isTemp = name.endsWith(this.TEMP_SUFFIX);
+      // 一時ファイルは書き込み先のファイルが書き込み中でなければ削除する
+      const target = isTemp ? file.slice(0, -this.TEMP_SUFFIX.length) : file;
+      if (this.writing.has(target) || (!isTemp && keep.has(file))) {
+        continue;
+      }
+      if (!isTemp && !name.endsWith(".json")) {
+        continue;
+      }
+      try {
+        await fs.promises.unlink(file);
+        logger.debug("Removed unused cache file", { file });
+      } catch (error) {
+        logger.error("Failed to remove unused cache file", error, { file });
+      }
+    }
+  }
+
+  /**
+   * ファイルを書き込む
+   * @param content 書き込む内容（undefinedの場合は削除する）
+   */
+  private write(file: string, content: string | undefined): Promise<void> {
+    this.queued.set(file, content);
+    this.unwritten.set(file, content);
+
+    const current = this.writing.get(file);
+    if (current) {
+      // 書き込み中の処理が終わった後に、待っている最新の内容をまとめて書き込む
+      return current;
+    }
+
+    const run = async (): Promise<void> => {
+      while (this.queued.has(file)) {
+        const next = this.queued.get(file);
+        this.queued.delete(file);
+        try {
+          await this.writeNow(file, next);
+        } catch (error) {
+          logger.error("Failed to write cache file", error, { file });
+        }
+      }
+      this.writing.delete(file);
+      this.unwritten.delete(file);
+    };
+    const promise = run();
+    this.writing.set(file, promise);
+    return promise;
+  }
+
+  private async writeNow(
+    file: string,
+    content: string | undefined
+  ): Promise<void> {
+    if (content === undefined) {
+      try {
+        await fs.promises.unlink(file);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
+      return;
+    }
+    const temp = `${file}${this.TEMP_SUFFIX}`;
+    await fs.promises.writeFile(temp, content, "utf8");
+    await fs.promises.rename(temp, file);
+  }
+
+  private getFile(namespace?: string): string {
+    // アカウントIDはUUIDだが、念のためファイル名に使えない文字を置き換える
+    const name = (namespace ?? "default").replace(/[^A-Za-z0-9_-]/g, "_");
+    return path.join(this.directory, `${name}.json`);
+  }
+}
+
+/**
+ * linear.cacheStorage に従ってキャッシュの保存先を作成する
+ * ファイルに保存できない場合は globalState に保存する
+ */
+export function createCacheStorage(
+  context: vscode.ExtensionContext
+): CacheStorage {
+  const memento = new MementoCacheStorage(context.globalState);
+  const type = vscode.workspace
+    .getConfiguration("linear")
+    .get<CacheStorageType>("cacheStorage", "file");
+  if (type !== "file") {
+    return memento;
+  }
+
+  const directory = path.join(context.globalStorageUri.fsPath, "cache");
+  try {
+    return new FileCacheStorage(directory, memento);
+  } catch (error) {
+    logger.error("Falling back to globalState for the cache", error, {
+      directory,
+    });
+    return memento;
+  }
+}
@@ -0,0 +1,279 @@
+import {
+  IssueLabelSnapshot,
+  IssueProjectSnapshot,
+  IssueSnapshot,
+  IssueStateSnapshot,
+  IssueTeamSnapshot,
+  IssueUserSnapshot,
+} from "../../models/issueSnapshot";
+
+export type EntityType =
+  | "issues"
+  | "states"
+  | "projects"
+  | "teams"
+  | "users"
+  | "labels";
+
+/**
+ * 正規化して保存するIssue
+ * 関連エンティティはIDのみを保持し、読み出し時に各テーブルから復元する
+ */
+export interface NormalizedIssue
+  extends Omit<
+    IssueSnapshot,
+    "state" | "assignee" | "creator" | "project" | "team" | "labels"
+  > {
+  stateId: string | null;
+  assigneeId: string | null;
+  creatorId: string | null;
+  projectId: string | null;
+  teamId: string | null;
+  labelIds: string[];
+}
+
+/**
+ * 部分更新で変更できるIssueのフィールド
+ */
+export type IssuePatch = Partial<
+  Pick<
+    NormalizedIssue,
+    | "title"
+    | "description"
+    | "priority"
+    | "stateId"
+    | "assigneeId"
+    | "projectId"
+    | "labelIds"
+    | "updatedAt"
+  >
+>;
+
+export interface EntityRecord<T> {
+  data: T;
+  timestamp: number;
+}
+
+export type SerializedEntityStore = Partial<
+  Record<EntityType, Record<string, EntityRecord<any>>>
+>;
+
+const ENTITY_TYPES: EntityType[] = [
+  "issues",
+  "states",
+  "projects",
+  "teams",
+  "users",
+  "labels",
+];
+
+/**
+ * エンティティをID単位で1件ずつ保持するストア
+ * 同じIssueが複数の一覧に含まれていても実体は1つなので、
+ * 1件の更新がそのIssueを含むすべての一覧に反映される
+ */
+export class EntityStore {
+  private tables: Record<EntityType, Map<string, EntityRecord<any>>> = {
+    issues: new Map(),
+    states: new Map(),
+    projects: new Map(),
+    teams: new Map(),
+    users: new Map(),
+    labels: new Map(),
+  };
+
+  /**
+   * エンティティを追加または置き換える
+   * @param type エンティティの種類
+   * @param entity IDを持つエンティティ
+   */
+  upsert<T extends { id: string }>(type: EntityType, entity: T): void {
+    this.tables[type].set(entity.id, { data: entity, timestamp: Date.now() });
+  }
+
+  /**
+   * エンティティを取得する
+   * @param type エンティティの種類
+   * @param id エンティティID
+   */
+  get<T>(type: EntityType, id: string): T | undefined {
+    return this.tables[type].get(id)?.data as T | undefined;
+  }
+
+  /**
+   * IssueSnapshotを分解して関連エンティティとともに保存する
+   * @param issue 保存するIssue
+   */
+  upsertIssue(issue: IssueSnapshot): void {
+    const { state, assignee, creator, project, team, labels, ...rest } = issue;
+
+    if (state) this.upsert<IssueStateSnapshot>("states", state);
+    if (assignee) this.upsert<IssueUserSnapshot>("users", assignee);
+    if (creator) this.upsert<IssueUserSnapshot>("users", creator);
+    if (project) this.upsert<IssueProjectSnapshot>("projects", project);
+    if (team) this.upsert<IssueTeamSnapshot>("teams", team);
+    labels.forEach((label) => this.upsert<IssueLabelSnapshot>("labels", label));
+
+    const normalized: NormalizedIssue = {
+      ...rest,
+      stateId: state?.id ?? null,
+      assigneeId: assignee?.id ?? null,
+      creatorId: creator?.id ?? null,
+      projectId: project?.id ?? null,
+      teamId: team?.id ?? null,
+      labelIds: labels.map((label) => label.id),
+    };
+    this.upsert("issues", normalized);
+  }
+
+  /**
+   * 関連エンティティを復元したIssueSnapshotを取得する
+   * @param id IssueのID
+   */
+  getIssue(id: string): IssueSnapshot | null {
+    const issue = this.get<NormalizedIssue>("issues", id);
+    return issue ? this.denormalize(issue) : null;
+  }
+
+  /**
+   * Issueが保存された時刻を取得する
+   * @param id IssueのID
+   */
+  getIssueTimestamp(id: string): number | undefined {
+    return this.tables.issues.get(id)?.timestamp;
+  }
+
+  /**
+   * Issueの一部のフィールドだけを更新する
+   * 保存時刻は変えないため、次回の取得時にはAPIの値で上書きされる
+   * @param id IssueのID
+   * @param patch 変更するフィールド
+   * @returns 更新後のIssue、未保存の場合はnull
+   */
+  patchIssue(id: string, patch: IssuePatch): IssueSnapshot | null {
+    const record = this.tables.issues.get(id);
+    if (!record) {
+      return null;
+    }
+    record.data = { ...record.data, ...patch };
+    return this.denormalize(record.data);
+  }
+
+  /**
+   * エンティティを削除する
+   * @param type エンティティの種類
+   * @param id エンティティID
+   */
+  delete(type: EntityType, id: string): void {
+    this.tables[type].delete(id);
+  }
+
+  /**
+   * 保持しているエンティティの件数を返す
+   * @param type エンティティの種類
+   */
+  count(type: EntityType): number {
+    return this.tables[type].size;
+  }
+
+  /**
+   * 指定したIssue以外の、保存時刻が古いIssueを削除する
+   * @param keep 削除しないIssueのID（一覧から参照されているものなど）
+   * @param olderThan この時刻（エポックミリ秒）より前に保存されたものを削除する
+   * @returns 削除した件数
+   */
+  pruneIssues(keep: Set<string>, olderThan: number): number {
+    let removed = 0;
+    this.tables.issues.forEach((record, id) => {
+      if (!keep.has(id) && record.timestamp < olderThan) {
+        this.tables.issues.delete(id);
+        removed++;
+      }
+    });
+    return removed;
+  }
+
+  /**
+   * すべてのエンティティを削除する
+   */
+  clear(): void {
+    ENTITY_TYPES.forEach((type) => this.tables[type].clear());
+  }
+
+  /**
+   * 永続化用のプレーンなオブジェクトに変換する
+   * @param issueIds 保存するIssueのID（省略時はすべて）
+   */
+  serialize(issueIds?: Set<string>): SerializedEntityStore {
+    const result: SerializedEntityStore = {};
+    ENTITY_TYPES.forEach((type) => {
+      const table: Record<string, EntityRecord<any>> = {};
+      this.tables[type].forEach((record, id) => {
+        if (type === "issues" && issueIds && !issueIds.has(id)) {
+          return;
+        }
+        table[id] = record;
+      });
+      result[type] = table;
+    });
+    return result;
+  }
+
+  /**
+   * 永続化されていたエンティティを読み込む
+   * 形式が不正なレコードは読み飛ばす
+   * @param serialized serializeで出力したオブジェクト
+   */
+  load(serialized: SerializedEntityStore): void {
+    ENTITY_TYPES.forEach((type) => {
+      const table = serialized[type];
+      if (!table || typeof table !== "object") {
+        return;
+      }
+      Object.entries(table).forEach(([id, record]) => {
+        if (
+          record &&
+          typeof record.timestamp === "number" &&
+          record.data &&
+          record.data.id === id
+        ) {
+          this.tables[type].set(id, record);
+        }
+      });
+    });
+  }
+
+  private denormalize(issue: NormalizedIssue): IssueSnapshot {
+    const {
+      stateId,
+      assigneeId,
+      creatorId,
+      projectId,
+      teamId,
+      labelIds,
+      ...rest
+    } = issue;
+
+    return {
+      ...rest,
+      state: stateId
+        ? this.get<IssueStateSnapshot>("states", stateId) ?? null
+        : null,
+      assignee: assigneeId
+        ? this.get<IssueUserSnapshot>("users", assigneeId) ?? null
+        : null,
+      creator: creatorId
+        ? this.get<IssueUserSnapshot>("users", creatorId) ?? null
+        : null,
+      project: projectId
+        ? this.get<IssueProjectSnapshot>("projects", projectId) ?? null
+        : null,
+      team: teamId
+        ? this.get<IssueTeamSnapshot>("teams", teamId) ?? null
+        : null,
+      labels: labelIds
+        .map((labelId) => this.get<IssueLabelSnapshot>("labels", labelId))
+        .filter((label): label is IssueLabelSnapshot => !!label),
+    };
+  }
+}
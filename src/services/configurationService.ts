@@ -0,0 +1,78 @@
+import * as vscode from "vscode";
+import { Logger } from "./logging/logger";
+
+const logger = new Logger("Configuration");
+
+/**
+ * linear.* の設定変更の内容
+ */
+export interface LinearConfigurationChange {
+  // linear.apiToken が変更された
+  apiToken: boolean;
+  // linear.apiUrl が変更された
+  apiUrl: boolean;
+  // linear.cacheStorage が変更された
+  cacheStorage: boolean;
+  // linear.filters.defaultFilter が変更された
+  defaultFilter: boolean;
+  // linear.maxIssuePages など、取得済みの一覧の内容に影響する設定が変更された
+  issueFetching: boolean;
+}
+
+/**
+ * linear.* の設定変更を監視し、変更内容ごとにまとめて通知する
+ * 同期間隔（linear.syncInterval）はSyncSchedulerが自身で監視する
+ */
+export class ConfigurationService implements vscode.Disposable {
+  private readonly ISSUE_FETCHING_KEYS = ["linear.maxIssuePages"];
+
+  private _onDidChange = new vscode.EventEmitter<LinearConfigurationChange>();
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * 拡張機能の動作に影響する設定が変更されたときに発火する
+   */
+  readonly onDidChange: vscode.Event<LinearConfigurationChange> =
+    this._onDidChange.event;
+
+  constructor() {
+    this.disposables.push(
+      this._onDidChange,
+      vscode.workspace.onDidChangeConfiguration((e) =>
+        this.handleConfigurationChange(e)
+      )
+    );
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+
+  private handleConfigurationChange(e: vscode.ConfigurationChangeEvent): void {
+    if (!e.affectsConfiguration("linear")) {
+      return;
+    }
+
+    const change: LinearConfigurationChange = {
+      apiToken: e.affectsConfiguration("linear.apiToken"),
+      apiUrl: e.affectsConfiguration("linear.apiUrl"),
+      cacheStorage: e.affectsConfiguration("linear.cacheStorage"),
+      defaultFilter: e.affectsConfiguration("linear.filters.defaultFilter"),
+      issueFetching: this.ISSUE_FETCHING_KEYS.some((key) =>
+        e.affectsConfiguration(key)
+      ),
+    };
+
+    if (
+      change.apiToken ||
+      change.apiUrl ||
+      change.cacheStorage ||
+      change.defaultFilter ||
+      change.issueFetching
+    ) {
+      logger.info("Configuration changed", { ...change });
+      this._onDidChange.fire(change);
+    }
+  }
+}
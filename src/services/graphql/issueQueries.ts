@@ -0,0 +1,203 @@
+/**
+ * Issue取得用のGraphQLドキュメントとレスポンスの型定義
+ * SDKのモデルは関連データ（state, projectなど）を遅延取得するため、
+ * 一覧表示に必要な関連データをフラグメントで一度に取得する
+ */
+
+export interface WorkflowStateDto {
+  id: string;
+  name: string;
+  color: string;
+  type: string;
+  position: number;
+  // Issueのフラグメントでは取得しない（ステート一覧の取得時のみ含まれる）
+  description?: string | null;
+}
+
+export interface UserDto {
+  id: string;
+  name: string;
+  displayName: string;
+  avatarUrl?: string | null;
+}
+
+export interface ProjectDto {
+  id: string;
+  name: string;
+  color?: string | null;
+  icon?: string | null;
+}
+
+export interface TeamDto {
+  id: string;
+  key: string;
+  name: string;
+}
+
+export interface LabelDto {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface CycleDto {
+  id: string;
+  number: number;
+  name?: string | null;
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface ParentIssueDto {
+  id: string;
+  identifier: string;
+  title: string;
+}
+
+export interface IssueDto {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string | null;
+  priority: number;
+  priorityLabel: string;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  archivedAt?: string | null;
+  completedAt?: string | null;
+  canceledAt?: string | null;
+  dueDate?: string | null;
+  estimate?: number | null;
+  state: WorkflowStateDto;
+  assignee?: UserDto | null;
+  creator?: UserDto | null;
+  project?: ProjectDto | null;
+  team: TeamDto;
+  labels: { nodes: LabelDto[] };
+  cycle?: CycleDto | null;
+  parent?: ParentIssueDto | null;
+}
+
+export interface PageInfoDto {
+  hasNextPage: boolean;
+  endCursor?: string | null;
+}
+
+export interface IssuesQueryResponse {
+  issues: {
+    nodes: IssueDto[];
+    pageInfo: PageInfoDto;
+  };
+}
+
+export interface IssueQueryResponse {
+  issue: IssueDto | null;
+}
+
+const ISSUE_FIELDS_FRAGMENT = `
+  fragment WorkflowStateFields on WorkflowState {
+    id
+    name
+    color
+    type
+    position
+  }
+
+  fragment UserFields on User {
+    id
+    name
+    displayName
+    avatarUrl
+  }
+
+  fragment IssueFields on Issue {
+    id
+    identifier
+    title
+    description
+    priority
+    priorityLabel
+    url
+    createdAt
+    updatedAt
+    archivedAt
+    completedAt
+    canceledAt
+    dueDate
+    estimate
+    state {
+      ...WorkflowStateFields
+    }
+    assignee {
+      ...UserFields
+    }
+    creator {
+      ...UserFields
+    }
+    project {
+      id
+      name
+      color
+      icon
+    }
+    team {
+      id
+      key
+      name
+    }
+    labels {
+      nodes {
+        id
+        name
+        color
+      }
+    }
+    cycle {
+      id
+      number
+      name
+      startsAt
+      endsAt
+    }
+    parent {
+      id
+      identifier
+      title
+    }
+  }
+`;
+
+export const ISSUES_QUERY = `
+  query Issues(
+    $filter: IssueFilter
+    $first: Int
+    $after: String
+    $includeArchived: Boolean
+  ) {
+    issues(
+      filter: $filter
+      first: $first
+      after: $after
+      includeArchived: $includeArchived
+    ) {
+      nodes {
+        ...IssueFields
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+  ${ISSUE_FIELDS_FRAGMENT}
+`;
+
+export const ISSUE_QUERY = `
+  query Issue($id: String!) {
+    issue(id: $id) {
+      ...IssueFields
+    }
+  }
+  ${ISSUE_FIELDS_FRAGMENT}
+`;
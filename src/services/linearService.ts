@@ -1,16 +1,57 @@
 import {
   LinearClient,
+  Comment,
   Team,
   IssuePayload,
   WorkflowState,
   Project,
-  Issue,
   LinearError,
+  parseLinearError,
 } from "@linear/sdk";
+import { DocumentNode, print } from "graphql";
+import * as vscode from "vscode";
 import { CacheService } from "./cache/cacheService";
-
-interface LocalIssue extends Issue {
-  _searchText?: string;
+import { planCacheInvalidation } from "./cache/cacheInvalidation";
+import {
+  ISSUES_QUERY,
+  ISSUE_QUERY,
+  IssueDto,
+  IssueQueryResponse,
+  IssuesQueryResponse,
+} from "./graphql/issueQueries";
+import { IssueSnapshot, IssueStateSnapshot } from "../models/issueSnapshot";
+import { IssuePatch } from "./cache/entityStore";
+import { applyIssueDelta } from "./sync/issueDelta";
+import { isConnectivityError } from "./offline/connectivity";
+import {
+  MutationQueue,
+  PendingMutation,
+  PendingMutationInput,
+} from "./offline/mutationQueue";
+import { IssueBackend } from "./backend/issueBackend";
+import {
+  CircuitState,
+  classifyRequestError,
+  RequestOptions,
+  RequestPipeline,
+} from "./request/requestPipeline";
+import {
+  RateLimitBudget,
+  RateLimitBudgetSnapshot,
+} from "./request/rateLimitBudget";
+import { Logger } from "./logging/logger";
+
+const logger = new Logger("LinearService");
+
+/**
+ * 進行中の読み取り
+ * - cancellation: リクエストを中断する（結果を待つ呼び出し元がすべて中断した場合のみ）
+ * - waiting: 結果を待っている呼び出し元の数
+ */
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  cancellation: vscode.CancellationTokenSource;
+  waiting: number;
 }
 
 export interface SearchCriteria {
@@ -23,8 +64,47 @@ export interface SearchCriteria {
   updatedBefore?: Date;
 }
 
+/**
+ * 一覧に表示するIssueの範囲
+ * - assignedToMe: 自分にアサインされたIssue
+ * - team: 指定チーム（未指定なら全チーム）のIssue（担当者を問わない）
+ * - unassigned: 担当者のいないIssue
+ * - createdByMe: 自分が作成したIssue
+ * - subscribedByMe: 自分が購読しているIssue
+ * - users: 指定ユーザーにアサインされたIssue
+ */
+export type IssueScopeType =
+  | "assignedToMe"
+  | "team"
+  | "unassigned"
+  | "createdByMe"
+  | "subscribedByMe"
+  | "users";
+
+export interface IssueScope {
+  type: IssueScopeType;
+  // type が team の場合に対象とするチームID
+  teamIds?: string[];
+  // type が users の場合に対象とするユーザーID
+  userIds?: string[];
+}
+
+export const DEFAULT_ISSUE_SCOPE: IssueScope = { type: "assignedToMe" };
+
+/**
+ * フィルター条件からIssueの範囲を決定する
+ * scope が未指定の場合は従来通り自分にアサインされたIssueとする
+ */
+export function resolveIssueScope(criteria: {
+  scope?: IssueScope;
+}): IssueScope {
+  return criteria.scope ?? DEFAULT_ISSUE_SCOPE;
+}
+
 export interface FilterCriteria {
-  assignedToMe?: boolean; // この変数は内部的には使用しないが、型の互換性のために残す
+  // 旧バージョンとの互換性のために残す（scope未指定時は自分のIssueが対象）
+  assignedToMe?: boolean;
+  scope?: IssueScope;
   status?: string[];
   priority?: number[];
   project?: string[];
@@ -38,347 +118,959 @@ export interface FilterCriteria {
   updatedAfter?: Date;
 }
 
-export class LinearService {
+/**
+ * LinearのAPIに接続するための認証情報
+ * - apiKey: 個人用APIキー
+ * - accessToken: OAuthで取得したアクセストークン
+ */
+export type LinearCredential = { apiKey: string } | { accessToken: string };
+
+/**
+ * 認証情報からAPIクライアントを作成する
+ * linear.apiUrl が設定されている場合は、既定のエンドポイントの代わりにそのURLへ接続する
+ */
+export function createLinearClient(credential: LinearCredential): LinearClient {
+  const apiUrl = vscode.workspace
+    .getConfiguration("linear")
+    .get<string>("apiUrl")
+    ?.trim();
+  return new LinearClient(apiUrl ? { ...credential, apiUrl } : credential);
+}
+
+export interface IssueListInfo {
+  // 取得済みのIssue件数
+  total: number;
+  // ページ数の上限に達し、APIにまだ続きがある場合はtrue
+  hasMore: boolean;
+}
+
+/**
+ * APIのレスポンスを拡張機能内で扱うIssueSnapshotに変換する
+ * nullになりうる値はundefinedに揃え、関連データはプレーンなオブジェクトにする
+ */
+export function toIssueSnapshot(dto: IssueDto): IssueSnapshot {
+  return {
+    id: dto.id,
+    identifier: dto.identifier,
+    title: dto.title,
+    description: dto.description ?? undefined,
+    priority: dto.priority,
+    priorityLabel: dto.priorityLabel,
+    url: dto.url,
+    createdAt: dto.createdAt,
+    updatedAt: dto.updatedAt,
+    archivedAt: dto.archivedAt ?? undefined,
+    completedAt: dto.completedAt ?? undefined,
+    canceledAt: dto.canceledAt ?? undefined,
+    dueDate: dto.dueDate ?? undefined,
+    estimate: dto.estimate ?? undefined,
+    state: dto.state
+      ? {
+          id: dto.state.id,
+          name: dto.state.name,
+          color: dto.state.color,
+          type: dto.state.type,
+        }
+      : null,
+    assignee: dto.assignee
+      ? {
+          id: dto.assignee.id,
+          name: dto.assignee.name,
+          displayName: dto.assignee.displayName,
+          avatarUrl: dto.assignee.avatarUrl ?? undefined,
+        }
+      : null,
+    creator: dto.creator
+      ? {
+          id: dto.creator.id,
+          name: dto.creator.name,
+          displayName: dto.creator.displayName,
+          avatarUrl: dto.creator.avatarUrl ?? undefined,
+        }
+      : null,
+    project: dto.project
+      ? {
+          id: dto.project.id,
+          name: dto.project.name,
+          color: dto.project.color ?? undefined,
+        }
+      : null,
+    team: dto.team
+      ? { id: dto.team.id, key: dto.team.key, name: dto.team.name }
+      : null,
+    labels: (dto.labels?.nodes ?? []).map((label) => ({
+      id: label.id,
+      name: label.name,
+      color: label.color,
+    })),
+    cycle: dto.cycle
+      ? {
+          id: dto.cycle.id,
+          number: dto.cycle.number,
+          name: dto.cycle.name ?? undefined,
+        }
+      : null,
+    parent: dto.parent
+      ? {
+          id: dto.parent.id,
+          identifier: dto.parent.identifier,
+          title: dto.parent.title,
+        }
+      : null,
+  };
+}
+
+/**
+ * 課題一覧のキャッシュキーを生成する
+ * @param includeCompleted 完了状態のIssueも含める場合はtrue
+ * @param additionalFilters その他のフィルター条件
+ */
+export function getIssuesCacheKey(
+  includeCompleted: boolean,
+  additionalFilters: FilterCriteria
+): string {
+  // フィルター条件をキャッシュキーの一部に含める
+  // 範囲は未指定でも既定の範囲に解決し、同じ範囲の一覧が同じキーになるようにする
+  const { scope, ...filters } = additionalFilters;
+  const filterKey = JSON.stringify({
+    completed: includeCompleted,
+    scope: resolveIssueScope({ scope }),
+    ...filters,
+  });
+  return `issues:${filterKey}`;
+}
+
+/**
+ * フィルター条件からGraphQLのIssueフィルターを組み立てる
+ * @param includeCompleted 完了状態のIssueも含める場合はtrue
+ * @param additionalFilters その他のフィルター条件
+ */
+export function buildIssueFilter(
+  includeCompleted: boolean,
+  additionalFilters: FilterCriteria
+): any {
+  // 対象範囲（担当者・作成者・チームなど）の条件
+  const filter: any = buildScopeFilter(resolveIssueScope(additionalFilters));
+
+  // 完了・キャンセル状態の除外設定
+  if (!includeCompleted) {
+    // TypeをArrayで指定して複数条件で除外
+    filter.state = {
+      type: {
+        nin: ["completed", "canceled"],
+      },
+    };
+  }
+
+  // 追加フィルターの適用
+  if (additionalFilters.status?.length) {
+    // 既存のstate条件がある場合は維持しつつ、IDの条件を追加
+    filter.state = {
+      ...filter.state,
+      id: { in: additionalFilters.status },
+    };
+  }
+
+  if (additionalFilters.priority?.length) {
+    filter.priority = { in: additionalFilters.priority };
+  }
+
+  if (additionalFilters.project?.length) {
+    filter.project = { id: { in: additionalFilters.project } };
+  }
+
+  if (additionalFilters.labels?.length) {
+    filter.labels = {
+      some: {
+        id: { in: additionalFilters.labels },
+      },
+    };
+  }
+
+  if (additionalFilters.updatedAfter) {
+    // 保存済みフィルターから読み込んだ場合は文字列になっている
+    filter.updatedAt = {
+      gt: new Date(additionalFilters.updatedAfter).toISOString(),
+    };
+  }
+
+  // クエリによる検索
+  if (additionalFilters.query) {
+    filter.or = [
+      { title: { contains: additionalFilters.query } },
+      { description: { contains: additionalFilters.query } },
+    ];
+  }
+
+  return filter;
+}
+
+/**
+ * Issueの範囲をGraphQLのフィルター条件に変換する
+ * 自分を指す条件は viewer を取得せずに isMe で表現する
+ */
+function buildScopeFilter(scope: IssueScope): any {
+  switch (scope.type) {
+    case "assignedToMe":
+      return { assignee: { isMe: { eq: true } } };
+    case "team":
+      return scope.teamIds?.length
+        ? { team: { id: { in: scope.teamIds } } }
+        : {};
+    case "unassigned":
+      return { assignee: { null: true } };
+    case "createdByMe":
+      return { creator: { isMe: { eq: true } } };
+    case "subscribedByMe":
+      return { subscribers: { some: { isMe: { eq: true } } } };
+    case "users":
+      return scope.userIds?.length
+        ? { assignee: { id: { in: scope.userIds } } }
+        : { assignee: { isMe: { eq: true } } };
+    default:
+      return { assignee: { isMe: { eq: true } } };
+  }
+}
+
+export class LinearService implements IssueBackend {
   private client!: LinearClient;
-  private readonly RETRY_COUNT = 3;
-  private readonly RETRY_DELAY = 1000;
+  private credential!: LinearCredential;
+  private readonly ISSUES_PAGE_SIZE = 100;
+  private readonly DEFAULT_MAX_ISSUE_PAGES = 10;
+  private readonly MAX_TRACKED_ISSUE_QUERIES = 5;
   private cacheService: CacheService;
   private lastSyncTime?: string;
   private organizationSlug?: string;
+  // 定期同期の対象とする、最近表示されたIssue一覧の取得条件（古いものから順に並ぶ）
+  private trackedIssueQueries: Map<
+    string,
+    { includeCompleted: boolean; additionalFilters: FilterCriteria }
+  > = new Map();
+
+  // バックグラウンド更新や変更操作でキャッシュの内容が変わったことを通知する
+  private _onDidChangeIssues = new vscode.EventEmitter<void>();
+  private _onDidChangeIssue = new vscode.EventEmitter<string>();
+  private _onDidPatchIssue = new vscode.EventEmitter<IssueSnapshot>();
+  private _onDidChangeConnectivity = new vscode.EventEmitter<boolean>();
+  private _onDidDetectConflict = new vscode.EventEmitter<PendingMutation>();
+  // APIに接続できない状態の場合はtrue
+  private offline = false;
+  private isReplaying = false;
+  // 再試行とサーキットブレーカーを共通で扱う
+  private readonly requestPipeline = new RequestPipeline();
+  // レスポンスヘッダーから読み取ったレート制限の残量
+  private readonly rateLimitBudget = new RateLimitBudget();
+  // ログでリクエストを識別するための連番
+  private requestCount = 0;
+  // 進行中の読み取り（キャッシュキーごと）
+  private inFlightRequests: Map<string, InFlightRequest> = new Map();
+  // 楽観的に反映し、APIに送信中の変更の件数（IssueIDごと）
+  private optimisticUpdates: Map<string, number> = new Map();
 
-  constructor(apiKey: string, cacheService: CacheService) {
-    this.initializeClient(apiKey);
+  /**
+   * Issue一覧のキャッシュが更新されたときに発火する
+   */
+  readonly onDidChangeIssues: vscode.Event<void> =
+    this._onDidChangeIssues.event;
+
+  /**
+   * 特定のIssue（詳細またはコメント）のキャッシュが更新されたときにIssueIDを伴って発火する
+   */
+  readonly onDidChangeIssue: vscode.Event<string> =
+    this._onDidChangeIssue.event;
+
+  /**
+   * 変更操作によりキャッシュ上のIssueが書き換えられたとき（ロールバックを含む）に変更後のIssueを伴って発火する
+   * 一覧全体を再取得せずに該当するノードのみを更新するために使う
+   */
+  readonly onDidPatchIssue: vscode.Event<IssueSnapshot> =
+    this._onDidPatchIssue.event;
+
+  /**
+   * オフライン状態が切り替わったときに、オフラインかどうかを伴って発火する
+   */
+  readonly onDidChangeConnectivity: vscode.Event<boolean> =
+    this._onDidChangeConnectivity.event;
+
+  /**
+   * オフライン中の変更を再送しようとして、リモートの変更との競合を検出したときに発火する
+   */
+  readonly onDidDetectConflict: vscode.Event<PendingMutation> =
+    this._onDidDetectConflict.event;
+
+  constructor(
+    credential: LinearCredential,
+    cacheService: CacheService,
+    private readonly mutationQueue: MutationQueue
+  ) {
+    this.initializeClient(credential);
     this.cacheService = cacheService;
+    // 障害が続いてリクエストを止めている間はオフラインとして扱う
+    this.requestPipeline.onDidChangeState((state) => {
+      if (state === "open") {
+        this.setOffline(true);
+      }
+    });
   }
 
-  private initializeClient(apiKey: string): void {
-    this.client = new LinearClient({ apiKey });
+  public dispose(): void {
+    this._onDidChangeIssues.dispose();
+    this._onDidChangeIssue.dispose();
+    this._onDidPatchIssue.dispose();
+    this._onDidChangeConnectivity.dispose();
+    this._onDidDetectConflict.dispose();
+    this.requestPipeline.dispose();
   }
 
-  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
-    let lastError: Error | null = null;
-    for (let i = 0; i < this.RETRY_COUNT; i++) {
-      try {
-        return await operation();
-      } catch (error) {
-        lastError = error as Error;
-        if (
-          error instanceof LinearError &&
-          error.message.includes("rate limit")
-        ) {
-          const waitTime = this.RETRY_DELAY * Math.pow(2, i);
-          console.log(
-            `Rate limit reached. Waiting ${waitTime}ms before retry ${i + 1}/${
-              this.RETRY_COUNT
-            }`
-          );
-          await new Promise((resolve) => setTimeout(resolve, waitTime));
-          continue;
-        }
+  /**
+   * APIに接続できない状態かどうか
+   */
+  public get isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * オフライン状態を更新する
+   * オンラインに戻った場合は未送信の変更を再送する
+   */
+  private setOffline(offline: boolean): void {
+    if (this.offline === offline) {
+      return;
+    }
+    this.offline = offline;
+    logger.info(offline ? "Linear API is unreachable" : "Linear API is back");
+    this._onDidChangeConnectivity.fire(offline);
+
+    if (!offline && this.mutationQueue.pendingCount > 0) {
+      this.replayPendingMutations().catch((err) =>
+        logger.error("Failed to replay pending mutations", err)
+      );
+    }
+  }
+
+  /**
+   * リクエストの成否からオフライン状態を判定する
+   */
+  private trackConnectivity(error?: unknown): void {
+    if (!error) {
+      this.setOffline(false);
+    } else if (isConnectivityError(error)) {
+      this.setOffline(true);
+    }
+  }
+
+  /**
+   * 変更操作をAPIに送信せずキューに積むべきかを判定する
+   * 先に積まれた操作がある間は、順序を保つため新しい操作もキューに積む
+   * 競合状態の操作はユーザーが解決するまで再送しないため、新しい操作を止めない
+   */
+  private shouldQueueMutation(): boolean {
+    return this.offline || this.mutationQueue.pendingCount > 0;
+  }
+
+  private initializeClient(credential: LinearCredential): void {
+    this.credential = credential;
+    this.client = createLinearClient(credential);
+    this.observeRateLimit(this.client);
+    this.requestPipeline.reset();
+    this.rateLimitBudget.reset();
+    // 以前の認証情報で始めた読み取りの結果を共有しないようにする
+    this.inFlightRequests.clear();
+  }
+
+  /**
+   * SDKのメソッド（teams・workflowStates・commentsなど）のリクエストでも、レスポンスヘッダーからレート制限の残量を更新する
+   * SDKのGraphQLクライアントは成功時にヘッダーを返さないため、ヘッダーを返す rawRequest で送信するよう置き換える
+   */
+  private observeRateLimit(client: LinearClient): void {
+    const graphQLClient = client.client;
+    graphQLClient.request = async <
+      Data,
+      Variables extends Record<string, unknown>
+    >(
+      document: DocumentNode | string,
+      variables?: Variables,
+      requestHeaders?: Parameters<LinearClient["client"]["request"]>[2]
+    ): Promise<Data> => {
+      const response = await graphQLClient.rawRequest<Data, Variables>(
+        typeof document === "string" ? document : print(document),
+        variables,
+        requestHeaders
+      );
+      this.rateLimitBudget.observe(response.headers);
+      return response.data as Data;
+    };
+  }
+
+  /**
+   * 読み取りのリクエストを実行する（ネットワークエラーやサーバーエラー時は再試行する）
+   */
+  private query<T>(
+    operation: () => Promise<T>,
+    label: string,
+    token?: vscode.CancellationToken
+  ): Promise<T> {
+    return this.request(operation, { idempotent: true, label, token });
+  }
+
+  /**
+   * 変更のリクエストを実行する（二重に反映されないよう、レート制限時のみ再試行する）
+   */
+  private mutate<T>(operation: () => Promise<T>, label: string): Promise<T> {
+    return this.request(operation, { idempotent: false, label });
+  }
+
+  private async request<T>(
+    operation: () => Promise<T>,
+    options: RequestOptions
+  ): Promise<T> {
+    const requestId = `req-${++this.requestCount}`;
+    const elapsed = logger.startTimer();
+    try {
+      const result = await this.requestPipeline.execute(operation, {
+        ...options,
+        requestId,
+      });
+      logger.debug(`${options.label} succeeded`, {
+        requestId,
+        durationMs: elapsed(),
+      });
+      this.trackConnectivity();
+      return result;
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        logger.debug(`${options.label} cancelled`, { requestId });
         throw error;
       }
+      logger.debug(`${options.label} failed`, {
+        requestId,
+        durationMs: elapsed(),
+        kind: classifyRequestError(error),
+      });
+      this.rateLimitBudget.observeError(error);
+      this.trackConnectivity(error);
+      throw error;
+    }
+  }
+
+  /**
+   * 同じキーの読み取りが進行中の場合は、新たにリクエストせずにその結果を共有する
+   * @param key 読み取る対象のキャッシュキー
+   * @param load 進行中のものがない場合に実行する読み取り
+   * @param token 中断した場合は結果を待たずに失敗する。結果を待つ呼び出し元がいなくなった場合は読み取りも中断する
+   */
+  private dedupe<T>(
+    key: string,
+    load: (token: vscode.CancellationToken) => Promise<T>,
+    token?: vscode.CancellationToken
+  ): Promise<T> {
+    if (token?.isCancellationRequested) {
+      return Promise.reject(new vscode.CancellationError());
+    }
+
+    let request = this.inFlightRequests.get(key);
+    if (!request) {
+      const cancellation = new vscode.CancellationTokenSource();
+      const promise = load(cancellation.token).finally(() => {
+        if (this.inFlightRequests.get(key)?.promise === promise) {
+          this.inFlightRequests.delete(key);
+        }
+        cancellation.dispose();
+      });
+      request = { promise, cancellation, waiting: 0 };
+      this.inFlightRequests.set(key, request);
+    }
+
+    const shared = request;
+    shared.waiting++;
+    if (!token) {
+      return shared.promise as Promise<T>;
     }
-    throw lastError;
+
+    return new Promise<T>((resolve, reject) => {
+      const listener = token.onCancellationRequested(() => {
+        listener.dispose();
+        reject(new vscode.CancellationError());
+        shared.waiting--;
+        if (shared.waiting === 0) {
+          logger.debug("Cancelled an in-flight request", { key });
+          shared.cancellation.cancel();
+          if (this.inFlightRequests.get(key) === shared) {
+            this.inFlightRequests.delete(key);
+          }
+        }
+      });
+      (shared.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => listener.dispose());
+    });
+  }
+
+  /**
+   * レート制限の残量が少なく、バックグラウンドの処理を控えるべき場合はtrue
+   * 残量はAPIのレスポンスヘッダー（SDKのメソッドによるリクエストを含む）とレート制限のエラーから更新する
+   */
+  public get isBudgetLow(): boolean {
+    return this.rateLimitBudget.isLow;
+  }
+
+  public getRateLimitBudget(): RateLimitBudgetSnapshot {
+    return this.rateLimitBudget.getSnapshot();
+  }
+
+  /**
+   * 障害時にリクエストを止めるサーキットブレーカーの状態
+   */
+  public get circuitState(): CircuitState {
+    return this.requestPipeline.circuitState;
   }
 
-  private createSearchIndex(issue: Issue): LocalIssue {
-    const localIssue = issue as LocalIssue;
-    localIssue._searchText = [
+  /**
+   * 手書きのGraphQLドキュメントをSDKのクライアント経由で実行する
+   * エラーはSDKと同じLinearErrorに変換する
+   */
+  private rawQuery<T>(
+    query: string,
+    variables: Record<string, unknown>,
+    label: string,
+    token?: vscode.CancellationToken
+  ): Promise<T> {
+    return this.query(
+      async () => {
+        try {
+          const response = await this.client.client.rawRequest<
+            T,
+            Record<string, unknown>
+          >(query, variables);
+          this.rateLimitBudget.observe(response.headers);
+          if (!response.data) {
+            throw new Error("GraphQL response contained no data");
+          }
+          return response.data;
+        } catch (error) {
+          throw parseLinearError(error as LinearError);
+        }
+      },
+      label,
+      token
+    );
+  }
+
+  /**
+   * クライアントサイド検索用のテキストを生成する
+   */
+  private getSearchText(issue: IssueSnapshot): string {
+    return [
       issue.title,
       issue.description,
       issue.identifier,
-      issue.assignee ? (issue.assignee as any).name : "",
-      issue.team ? (issue.team as any).name : "",
-      issue.labels
-        ? (issue.labels as any).nodes?.map((l: any) => l.name).join(" ")
-        : "",
-      issue.state ? (issue.state as any).name : "",
+      issue.assignee?.name,
+      issue.team?.name,
+      issue.labels.map((l) => l.name).join(" "),
+      issue.state?.name,
     ]
       .filter(Boolean)
       .join(" ")
       .toLowerCase();
-    return localIssue;
+  }
+
+  /**
+   * 一覧取得時に辿るページ数の上限を設定から取得する
+   */
+  private getMaxIssuePages(): number {
+    const maxPages = vscode.workspace
+      .getConfiguration("linear")
+      .get<number>("maxIssuePages", this.DEFAULT_MAX_ISSUE_PAGES);
+    return Math.max(1, Math.floor(maxPages));
+  }
+
+  /**
+   * pageInfo.endCursorを辿ってフィルターに一致するIssueをすべて取得する
+   * ページ数の上限に達した場合はそこで打ち切る
+   * @param filter GraphQLのIssueフィルター
+   * @param includeArchived アーカイブ済みのIssueも含める場合はtrue
+   */
+  private async fetchAllIssuePages(
+    filter: any,
+    includeArchived: boolean = false
+  ): Promise<{ issues: IssueSnapshot[]; hasMore: boolean }> {
+    const maxPages = this.getMaxIssuePages();
+    const issues: IssueSnapshot[] = [];
+    let after: string | undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      // フラグメントで関連データを含めて取得し、行ごとの追加リクエストを避ける
+      const { issues: connection } = await this.rawQuery<IssuesQueryResponse>(
+        ISSUES_QUERY,
+        {
+          filter,
+          first: this.ISSUES_PAGE_SIZE,
+          after,
+          includeArchived,
+        },
+        "Issues"
+      );
+
+      issues.push(...connection.nodes.map((dto) => toIssueSnapshot(dto)));
+      logger.trace(`Fetched issue page ${page + 1}`, {
+        issues: connection.nodes.length,
+        total: issues.length,
+      });
+
+      const { hasNextPage, endCursor } = connection.pageInfo;
+      if (!hasNextPage || !endCursor) {
+        return { issues, hasMore: false };
+      }
+      after = endCursor;
+    }
+
+    logger.warn(
+      `Reached linear.maxIssuePages (${maxPages}), remaining issues were not fetched`
+    );
+    return { issues, hasMore: true };
+  }
+
+  /**
+   * 直近の一覧取得結果の件数情報を返す（一覧のキャッシュと合わせて永続化している）
+   * @param includeCompleted getIssuesに渡したものと同じ値
+   * @param additionalFilters getIssuesに渡したものと同じ値
+   */
+  public getIssueListInfo(
+    includeCompleted: boolean = false,
+    additionalFilters: FilterCriteria = {}
+  ): IssueListInfo | undefined {
+    return this.cacheService.getIssueListInfo(
+      getIssuesCacheKey(includeCompleted, additionalFilters)
+    );
   }
 
   /**
    * 課題一覧を取得する
    * キャッシュがある場合は差分更新を行い、なければ全件取得する
-   * 常に自分にアサインされたIssueのみを取得し、完了・キャンセル状態は除外
+   * 取得範囲は additionalFilters.scope に従い（既定は自分のIssue）、完了・キャンセル状態は除外
    * @param includeCompleted 完了状態のIssueも含める場合はtrue
    * @param additionalFilters その他のフィルター条件
    */
   public async getIssues(
     includeCompleted: boolean = false,
     additionalFilters: FilterCriteria = {}
-  ) {
-    // フィルター条件をキャッシュキーの一部に含める
-    const filterKey = JSON.stringify({
-      completed: includeCompleted,
-      ...additionalFilters,
-    });
-    const cacheKey = `issues:${filterKey}`;
-    console.log("Attempting to get issues from cache:", cacheKey);
-    const cached = this.cacheService.get<LocalIssue[]>(cacheKey);
+  ): Promise<IssueSnapshot[]> {
+    const cacheKey = getIssuesCacheKey(includeCompleted, additionalFilters);
+    this.trackIssueQuery(cacheKey, includeCompleted, additionalFilters);
+    // オフライン中は期限切れのキャッシュも使う
+    const cached = this.cacheService.getIssueList(
+      cacheKey,
+      this.offline ? 0 : undefined
+    );
 
     // キャッシュデータの有効性をチェック
     const isValidCache = cached && Array.isArray(cached) && cached.length > 0;
     if (isValidCache) {
-      console.log("Cache hit! Found", cached.length, "issues in cache");
+      logger.debug("Issue list served from cache", {
+        cacheKey,
+        issues: cached.length,
+      });
 
       // バックグラウンドでAPIデータを非同期更新
-      const existingInfo = this.cacheService.getLastUpdateId(cacheKey);
-      const lastSyncTime =
-        existingInfo || this.lastSyncTime || new Date().toISOString();
-
-      // 非同期で更新
+      // 同じ一覧の更新が進行中の場合は重ねて実行しない
       setTimeout(() => {
-        this.updateIssuesInBackground(
-          cacheKey,
-          lastSyncTime,
-          cached,
+        this.syncIssueList(cacheKey, cached, {
           includeCompleted,
-          additionalFilters
-        ).catch((err) => console.error("Background update failed:", err));
+          additionalFilters,
+        }).catch((err) =>
+          logger.error("Background update failed", err, { cacheKey })
+        );
       }, 100);
 
       return cached;
     }
 
-    console.log("Cache miss, fetching from API");
+    logger.debug("Issue list not cached, fetching from API", { cacheKey });
     try {
-      // 初回またはキャッシュ無効時の全件取得
-      const result = await this.withRetry(async () => {
-        const filter: any = {};
-
-        // 常に自分のIssueのみを取得
-        const me = await this.client.viewer;
-        filter.assignee = { id: { eq: me.id } };
-
-        // 完了・キャンセル状態の除外設定
-        if (!includeCompleted) {
-          // TypeをArrayで指定して複数条件で除外
-          filter.state = {
-            type: {
-              nin: ["completed", "canceled"],
-            },
-          };
-        }
+      // 同じ一覧の取得が進行中の場合はその結果を共有する
+      return await this.dedupe(cacheKey, () =>
+        this.fetchIssueList(cacheKey, includeCompleted, additionalFilters)
+      );
+    } catch (error) {
+      logger.error("Failed to fetch issues", error, { cacheKey });
+      throw new Error(`Failed to fetch issues: ${error}`);
+    }
+  }
 
-        // 追加フィルターの適用
-        if (additionalFilters.status?.length) {
-          // 既存のstate条件がある場合は維持しつつ、IDの条件を追加
-          filter.state = {
-            ...filter.state,
-            id: { in: additionalFilters.status },
-          };
-        }
+  /**
+   * Issue一覧を全件取得してキャッシュに保存する
+   */
+  private async fetchIssueList(
+    cacheKey: string,
+    includeCompleted: boolean,
+    additionalFilters: FilterCriteria
+  ): Promise<IssueSnapshot[]> {
+    // 初回またはキャッシュ無効時の全件取得（各ページのリクエストは失敗時に再試行される）
+    const filter = buildIssueFilter(includeCompleted, additionalFilters);
+
+    logger.trace("Applying issue filter", { cacheKey, filter });
+
+    // LinearのAPIクエリ
+    // 重要: 関連データはフラグメントで一括取得済みのため、表示時の追加リクエストは発生しない
+    // 100件を超える場合はカーソルを辿って全ページを取得する
+    const elapsed = logger.startTimer();
+    // 取得中の更新を取りこぼさないよう、問い合わせ前の時刻を差分同期の基準にする
+    const fetchStartedAt = new Date().toISOString();
+    const { issues, hasMore } = await this.fetchAllIssuePages(filter);
+    logger.info(`Fetched ${issues.length} issues`, {
+      cacheKey,
+      hasMore,
+      durationMs: elapsed(),
+    });
 
-        if (additionalFilters.priority?.length) {
-          filter.priority = { in: additionalFilters.priority };
-        }
+    // Issue本体はエンティティとして、一覧はIDのリストとしてキャッシュに保存
+    this.cacheService.setIssueList(cacheKey, issues, fetchStartedAt, {
+      total: issues.length,
+      hasMore,
+    });
+    this.lastSyncTime = fetchStartedAt;
+    return issues;
+  }
 
-        if (additionalFilters.project?.length) {
-          filter.project = { id: { in: additionalFilters.project } };
-        }
+  /**
+   * 定期同期の対象としてIssue一覧の取得条件を記録する
+   * 直近に使われたものだけを一定数保持する
+   */
+  private trackIssueQuery(
+    cacheKey: string,
+    includeCompleted: boolean,
+    additionalFilters: FilterCriteria
+  ): void {
+    this.trackedIssueQueries.delete(cacheKey);
+    this.trackedIssueQueries.set(cacheKey, {
+      includeCompleted,
+      additionalFilters,
+    });
 
-        if (additionalFilters.labels?.length) {
-          filter.labels = {
-            some: {
-              id: { in: additionalFilters.labels },
-            },
-          };
-        }
+    if (this.trackedIssueQueries.size > this.MAX_TRACKED_ISSUE_QUERIES) {
+      const oldestKey = this.trackedIssueQueries.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.trackedIssueQueries.delete(oldestKey);
+      }
+    }
+  }
 
-        if (additionalFilters.updatedAfter) {
-          filter.updatedAt = {
-            gt: additionalFilters.updatedAfter.toISOString(),
-          };
-        }
+  /**
+   * 最近表示されたIssue一覧をすべて差分同期する
+   * 定期同期から呼び出され、失敗した場合は例外を投げる
+   */
+  public async syncIssues(): Promise<void> {
+    // 同期でオプティミスティックな変更が上書きされないよう、未送信の変更を先に送る
+    if (this.mutationQueue.pendingCount > 0) {
+      await this.replayPendingMutations();
+    }
 
-        // クエリによる検索
-        if (additionalFilters.query) {
-          filter.or = [
-            { title: { contains: additionalFilters.query } },
-            { description: { contains: additionalFilters.query } },
-          ];
-        }
+    for (const [cacheKey, query] of this.trackedIssueQueries) {
+      // キャッシュが破棄された一覧は次回の表示時に全件取得される
+      const cached = this.cacheService.getIssueList(cacheKey, 0);
+      if (!cached) {
+        continue;
+      }
 
-        console.log("Applying filter:", JSON.stringify(filter));
+      await this.syncIssueList(cacheKey, cached, query);
 
-        // LinearのAPIクエリ
-        // 重要: issue.state などの呼び出しで個別APIリクエストが発生しないよう関連データを一度に取得
-        const issues = await this.client.issues({
-          filter,
-          first: 100,
-          // includeパラメータを使用して関連データを一括取得
-          include: ["state", "assignee", "project", "team", "labels"],
-        } as any);
+      // 差分がなくても最新であることを確認できたので有効期限を延長する
+      this.cacheService.touch(cacheKey);
+    }
+  }
 
-        console.log(
-          `Fetched ${issues.nodes.length} issues from API with related data`
-        );
+  /**
+   * キャッシュ済みのIssue一覧を前回の同期以降の差分で更新する
+   * 同じ一覧の更新が進行中の場合はその結果を共有する
+   * @param afterMutation 送信した変更を反映するための同期の場合はtrue（レート制限の残量が少なくても行う）
+   */
+  private async syncIssueList(
+    cacheKey: string,
+    cached: IssueSnapshot[],
+    query: { includeCompleted: boolean; additionalFilters: FilterCriteria },
+    afterMutation: boolean = false
+  ): Promise<void> {
+    if (!afterMutation && this.rateLimitBudget.isLow) {
+      logger.debug("Background update skipped: budget is low", { cacheKey });
+      return;
+    }
 
-        // 取得したデータに関連情報が正しく含まれているか確認
-        const sampleIssue = issues.nodes[0];
-        if (sampleIssue) {
-          this.logSampleIssueData(sampleIssue);
-        }
+    const lastSyncTime =
+      this.cacheService.getLastUpdateId(cacheKey) ||
+      this.lastSyncTime ||
+      new Date().toISOString();
+
+    return this.dedupe(`sync:${cacheKey}`, () =>
+      this.updateIssuesInBackground(
+        cacheKey,
+        lastSyncTime,
+        cached,
+        query.includeCompleted,
+        query.additionalFilters
+      )
+    );
+  }
 
-        // 検索用のインデックスを生成してキャッシュに保存
-        const localIssues = issues.nodes.map((issue) =>
-          this.createSearchIndex(issue)
-        );
-        this.cacheService.set(cacheKey, localIssues, new Date().toISOString());
-        this.lastSyncTime = new Date().toISOString();
-        return localIssues;
-      });
+  /**
+   * 送信した変更の影響を受けるキャッシュだけを削除・差分同期する
+   * 影響の範囲は planCacheInvalidation で求める
+   */
+  private invalidateAfterMutation(mutation: PendingMutationInput): void {
+    const plan = planCacheInvalidation(mutation, this.cacheService);
+    logger.debug(`Invalidating cache after ${mutation.type}`, {
+      evict: plan.evict.length,
+      sync: plan.sync.length,
+    });
 
-      return result;
-    } catch (error) {
-      console.error("Failed to fetch issues:", error);
-      // キャッシュが無ければエラーを投げる、あれば古いデータを返す
-      if (!isValidCache) {
-        throw new Error(`Failed to fetch issues: ${error}`);
-      }
-      return cached!;
+    plan.evict.forEach((key) => {
+      this.cacheService.delete(key);
+      // 送信前に始めた取得の結果も使わない
+      this.inFlightRequests.delete(key);
+    });
+
+    if (plan.sync.length > 0) {
+      this.syncAffectedIssueLists(plan.sync).catch((error) =>
+        logger.error("Failed to sync issue lists after mutation", error)
+      );
     }
   }
 
-  // サンプルイシューのデータをログに出力して確認用
-  private logSampleIssueData(issue: Issue) {
-    try {
-      console.log("Sample issue data validation:");
-
-      // 安全に値を取り出す関数
-      const safeExtract = (
-        obj: any,
-        path: string,
-        defaultValue: any = "not available"
-      ) => {
-        try {
-          const paths = path.split(".");
-          let current = obj;
-          for (const key of paths) {
-            if (current === null || current === undefined) return defaultValue;
-            current = current[key];
-          }
-          if (typeof current === "object" && current !== null) {
-            return JSON.stringify(current).substring(0, 50) + "...";
-          }
-          return current || defaultValue;
-        } catch (e) {
-          return defaultValue;
-        }
-      };
-
-      console.log(`Issue ID: ${issue.id}`);
-      console.log(`Title: ${issue.title}`);
-      console.log(`Identifier: ${issue.identifier}`);
-      console.log(`State: ${safeExtract(issue, "state.name")}`);
-      console.log(`State type: ${safeExtract(issue, "state.type")}`);
-      console.log(`Assignee: ${safeExtract(issue, "assignee.name")}`);
-      console.log(`Team: ${safeExtract(issue, "team.name")}`);
-      console.log(`Project: ${safeExtract(issue, "project.name")}`);
-
-      if (issue.state === undefined) {
-        console.warn(`Issue ${issue.identifier} has no state information!`);
+  /**
+   * 変更の影響を受けたIssue一覧を差分同期する
+   * 取得条件がわからない一覧（前回の起動時に保存されたものなど）は差分同期できないため削除し、次回の表示時に取得し直す
+   */
+  private async syncAffectedIssueLists(cacheKeys: string[]): Promise<void> {
+    let evicted = false;
+    for (const cacheKey of cacheKeys) {
+      const query = this.trackedIssueQueries.get(cacheKey);
+      const cached = this.cacheService.getIssueList(cacheKey, 0);
+      if (!query || !cached) {
+        this.cacheService.delete(cacheKey);
+        evicted = true;
+        continue;
+      }
+
+      try {
+        await this.syncIssueList(cacheKey, cached, query, true);
+      } catch (error) {
+        // 定期同期で再度反映を試みる
+        logger.warn("Failed to sync issue list after mutation", {
+          cacheKey,
+          error: String(error),
+        });
       }
-    } catch (e) {
-      console.error("Error logging sample issue data:", e);
+    }
+
+    if (evicted) {
+      this._onDidChangeIssues.fire();
     }
   }
 
   /**
    * バックグラウンドで課題の差分更新を行う
-   * 自分にアサインされたIssueのみを取得し、オプションで完了状態を含める
+   * getIssuesと同じ範囲・フィルター条件で、オプションで完了状態を含める
+   * 更新されたIssueの反映に加え、フィルターに一致しなくなったIssueを一覧から取り除く
+   * 失敗した場合は例外を投げる
    */
   private async updateIssuesInBackground(
     cacheKey: string,
     lastSyncTime: string,
-    cachedIssues: LocalIssue[],
+    cachedIssues: IssueSnapshot[],
     includeCompleted: boolean = false,
     additionalFilters: FilterCriteria = {}
   ): Promise<void> {
-    try {
-      console.log(`Background update started for ${cacheKey}`);
-      // 更新時にも同じフィルター条件を適用
-      const filter: any = {
-        updatedAt: { gt: lastSyncTime },
-      };
-
-      // 常に自分のIssueのみを取得
-      const me = await this.client.viewer;
-      filter.assignee = { id: { eq: me.id } };
-
-      // 完了・キャンセル状態の除外設定
-      if (!includeCompleted) {
-        // TypeをArrayで指定して複数条件で除外
-        filter.state = {
-          type: {
-            nin: ["completed", "canceled"],
-          },
-        };
-      }
-
-      // 追加フィルターの適用
-      if (additionalFilters.status?.length) {
-        filter.state = {
-          ...filter.state,
-          id: { in: additionalFilters.status },
-        };
-      }
-
-      if (additionalFilters.priority?.length) {
-        filter.priority = { in: additionalFilters.priority };
-      }
-
-      if (additionalFilters.project?.length) {
-        filter.project = { id: { in: additionalFilters.project } };
-      }
+    logger.debug("Background update started", { cacheKey });
+    const elapsed = logger.startTimer();
+    // 取得中の更新を取りこぼさないよう、問い合わせ前の時刻を次回の基準にする
+    const syncStartedAt = new Date().toISOString();
+
+    // 更新時にも同じフィルター条件を適用
+    const filter = buildIssueFilter(includeCompleted, additionalFilters);
+    filter.updatedAt = { gt: lastSyncTime };
+
+    // 差分更新用のAPIコール（更新件数が多い場合も全ページを取得）
+    const { issues: matchingIssues, hasMore: matchingHasMore } =
+      await this.fetchAllIssuePages(filter);
+
+    // 一覧内のIssueのうち、フィルターを問わず更新されたもの（アーカイブ済みを含む）を取得し、
+    // 一覧から外れたIssueを検出する
+    const { issues: changedIssues, hasMore: changedHasMore } =
+      cachedIssues.length > 0
+        ? await this.fetchAllIssuePages(
+            {
+              id: { in: cachedIssues.map((issue) => issue.id) },
+              updatedAt: { gt: lastSyncTime },
+            },
+            true
+          )
+        : { issues: [], hasMore: false };
 
-      // 差分更新用のAPIコール
-      const issues = await this.client.issues({
-        filter,
-        first: 100,
-        // 関連データを一度に取得
-        include: ["state", "assignee", "project", "team"],
-      } as any);
-
-      const updatedIssues = issues.nodes;
-      console.log(
-        `Found ${updatedIssues.length} updated issues since ${lastSyncTime}`
-      );
+    // 差分が取得ページ数の上限を超えた場合は、取りこぼしのないよう全件を取得し直す
+    if (matchingHasMore || changedHasMore) {
+      logger.warn("Delta exceeded linear.maxIssuePages, refetching the list", {
+        cacheKey,
+        since: lastSyncTime,
+      });
+      await this.fetchIssueList(cacheKey, includeCompleted, additionalFilters);
+      this._onDidChangeIssues.fire();
+      return;
+    }
 
-      if (updatedIssues.length > 0) {
-        // 更新されたイシューのIDを記録
-        const updatedIds = new Set(updatedIssues.map((i) => i.id));
+    // 送信中・未送信の変更があるIssueは、先に反映した変更を上書きしないようキャッシュの内容のまま残す
+    const skippedIds = new Set(
+      [...matchingIssues, ...changedIssues]
+        .map((issue) => issue.id)
+        .filter((id) => this.hasUnsentChanges(id))
+    );
+    const {
+      issues: newIssues,
+      updatedIds,
+      removedIds,
+    } = applyIssueDelta(
+      cachedIssues,
+      matchingIssues.filter((issue) => !skippedIds.has(issue.id)),
+      changedIssues.filter((issue) => !skippedIds.has(issue.id))
+    );
+    logger.debug("Background update finished", {
+      cacheKey,
+      since: lastSyncTime,
+      updated: updatedIds.length,
+      removed: removedIds.length,
+      skipped: skippedIds.size,
+      durationMs: elapsed(),
+    });
 
-        // 更新されていないイシューはそのまま保持
-        const filteredCache = cachedIssues.filter((i) => !updatedIds.has(i.id));
+    // 残したIssueは変更の送信後の差分同期で取得し直すため、その場合は基準の時刻を進めない
+    const nextSyncTime = skippedIds.size > 0 ? lastSyncTime : syncStartedAt;
+    this.lastSyncTime = nextSyncTime;
+    if (updatedIds.length === 0 && removedIds.length === 0) {
+      // 変更がなくても基準の時刻を進め、次回はこれ以降の差分のみを問い合わせる
+      this.cacheService.setLastUpdateId(cacheKey, nextSyncTime);
+      return;
+    }
 
-        // 新しいイシューリストを作成（関連データはすでに含まれている）
-        const processedIssues = updatedIssues.map((issue) => {
-          console.log(`Processing updated issue ${issue.identifier}`);
-          return this.createSearchIndex(issue);
-        });
+    // 一覧から外れたIssueも最新の状態で保存し、他の一覧の表示に反映する
+    const removed = new Set(removedIds);
+    this.cacheService.setIssues(
+      changedIssues.filter((issue) => removed.has(issue.id))
+    );
 
-        const newIssues = [...filteredCache, ...processedIssues];
+    // キャッシュを更新（更新されたIssueは他の一覧にも反映される）
+    this.cacheService.setIssueList(cacheKey, newIssues, nextSyncTime, {
+      total: newIssues.length,
+      hasMore: this.cacheService.getIssueListInfo(cacheKey)?.hasMore ?? false,
+    });
 
-        // キャッシュを更新
-        this.cacheService.set(cacheKey, newIssues, new Date().toISOString());
-        this.lastSyncTime = new Date().toISOString();
-        console.log(
-          `Updated cache for ${cacheKey} with ${newIssues.length} issues`
-        );
-      } else {
-        console.log(`No updates needed for ${cacheKey}`);
-      }
-    } catch (error) {
-      console.error("Background update failed:", error);
-    }
+    // 表示中のビューに更新を通知
+    this._onDidChangeIssues.fire();
+    [...updatedIds, ...removedIds].forEach((id) =>
+      this._onDidChangeIssue.fire(id)
+    );
   }
 
-  public async searchIssues(criteria: SearchCriteria): Promise<Issue[]> {
+  public async searchIssues(
+    criteria: SearchCriteria
+  ): Promise<IssueSnapshot[]> {
     try {
       // キャッシュからすべてのissueを取得
       const allIssues = await this.getIssues(false);
@@ -387,31 +1079,28 @@ export class LinearService {
         // クライアントサイドでのフィルタリング
         if (
           criteria.query &&
-          !issue._searchText?.includes(criteria.query.toLowerCase())
+          !this.getSearchText(issue).includes(criteria.query.toLowerCase())
         ) {
           return false;
         }
 
         if (
           criteria.labels?.length &&
-          !(issue.labels as any)?.nodes?.some((l: any) =>
-            criteria.labels?.includes(l.id)
-          )
+          !issue.labels.some((l) => criteria.labels?.includes(l.id))
         ) {
           return false;
         }
 
         if (
           criteria.teamIds?.length &&
-          !criteria.teamIds.includes((issue.team as any)?.id)
+          (!issue.team || !criteria.teamIds.includes(issue.team.id))
         ) {
           return false;
         }
 
         if (
           criteria.assigneeIds?.length &&
-          (!issue.assignee ||
-            !criteria.assigneeIds.includes((issue.assignee as any).id))
+          (!issue.assignee || !criteria.assigneeIds.includes(issue.assignee.id))
         ) {
           return false;
         }
@@ -440,7 +1129,7 @@ export class LinearService {
         return true;
       });
     } catch (error) {
-      console.error("Failed to search issues:", error);
+      logger.error("Failed to search issues", error);
       throw error;
     }
   }
@@ -465,7 +1154,10 @@ export class LinearService {
 
     try {
       // APIから組織情報を取得
-      const organization = await this.client.organization;
+      const organization = await this.query(
+        () => this.client.organization,
+        "organization"
+      );
       const orgName = organization.name;
       // nameをURL用のslugとして使用（小文字に変換し、スペースをハイフンに置き換え）
       const slug = orgName ? orgName.toLowerCase().replace(/\s+/g, "-") : null;
@@ -479,7 +1171,7 @@ export class LinearService {
       this.organizationSlug = slug;
       return slug;
     } catch (error) {
-      console.error("組織情報の取得に失敗:", error);
+      logger.error("Failed to fetch organization", error);
       throw error;
     }
   }
@@ -497,7 +1189,7 @@ export class LinearService {
       const slug = await this.getOrganizationSlug();
       return `https://linear.app/${slug}/issue/${identifier}`;
     } catch (error) {
-      console.error(`イシューURL生成失敗 (${issueId}):`, error);
+      logger.error("Failed to build issue URL", error, { issueId });
       // フォールバックURLを返す（可能な限り動作するように）
       return `https://linear.app/issue/${identifier}`;
     }
@@ -507,156 +1199,129 @@ export class LinearService {
    * Issue詳細を取得する
    * キャッシュがある場合はそれを返し、バックグラウンドで更新する
    * @param issueId IssueのID
+   * @param token 中断した場合は取得を打ち切る
    */
-  public async getIssueDetails(issueId: string) {
+  public async getIssueDetails(
+    issueId: string,
+    token?: vscode.CancellationToken
+  ): Promise<IssueSnapshot> {
     if (!issueId || typeof issueId !== "string") {
-      console.error(`Invalid issueId provided: ${issueId}`);
+      logger.error(
+        "getIssueDetails called with an invalid issue id",
+        undefined,
+        {
+          issueId,
+        }
+      );
       throw new Error("無効なイシューIDが提供されました");
     }
 
-    // 改善: キャッシュキーをissueIdベースに変更
-    const cacheKey = `issueDetail:${issueId}`;
-    console.log(`Attempting to get issue details from cache: ${cacheKey}`);
-
-    // キャッシュ確認
-    const cached = this.cacheService.get<Issue>(cacheKey);
+    // 一覧で取得済みのIssueも同じエンティティとして参照できる
+    const cached = this.cacheService.getIssue(
+      issueId,
+      this.offline ? 0 : undefined
+    );
 
     if (cached) {
-      console.log(`Cache hit for issue details: ${issueId}`);
-
-      // 必須情報が存在するか確認
-      if (cached.state) {
-        console.log(`Issue ${issueId} has state information in cache`);
-        // @ts-ignore - stateはオブジェクトかPromiseになりうる
-        const stateName = cached.state.name || "unknown";
-        if (!stateName || stateName === "unknown") {
-          console.warn(
-            `Issue ${issueId} has no state name, might be an API issue`
-          );
-        }
-      } else {
-        console.warn(`Issue ${issueId} has no state information in cache`);
-      }
-
-      // URLプロパティを追加（存在しない場合のみ）
-      if (!cached.url && cached.identifier) {
-        try {
-          const url = await this.getIssueUrl(issueId, cached.identifier);
-          (cached as any).url = url;
-        } catch (error) {
-          console.warn(`イシューURL生成失敗 (${issueId}):`, error);
-        }
-      }
+      logger.trace("Issue detail served from cache", { issueId });
 
       // バックグラウンドで最新データを取得
       setTimeout(() => {
-        this.fetchIssueDetailsInBackground(issueId, cacheKey).catch((err) =>
-          console.error(`Background fetch failed for ${issueId}:`, err)
+        this.fetchIssueDetailsInBackground(issueId).catch((err) =>
+          logger.error("Background fetch failed", err, { issueId })
         );
       }, 100);
 
       return cached;
     }
 
-    console.log(`Cache miss for issue details: ${issueId}, fetching from API`);
+    logger.debug("Issue detail not cached, fetching from API", { issueId });
     try {
-      // APIから取得
-      return await this.withRetry(async () => {
-        // 注: LinearSDKのバージョンによって使用方法が異なる場合があります
-        const issue = await this.client.issue(issueId);
-
-        if (!issue) {
-          throw new Error(`Issue ${issueId} not found`);
-        }
-
-        // stateを明示的に事前ロード
-        try {
-          const state = await issue.state;
-          console.log(
-            `Preloaded state for issue ${issueId}: ${state?.name || "unknown"}`
-          );
-        } catch (stateError) {
-          console.warn(
-            `Failed to preload state for issue ${issueId}:`,
-            stateError
-          );
-        }
-
-        // URLプロパティを追加
-        if (issue.identifier) {
-          try {
-            const url = await this.getIssueUrl(issueId, issue.identifier);
-            (issue as any).url = url;
-          } catch (error) {
-            console.warn(`イシューURL生成失敗 (${issueId}):`, error);
-          }
-        }
+      // APIから取得（state・担当者などの関連データも同じリクエストで取得）
+      // 同じIssueの取得が進行中の場合はその結果を共有する
+      const issue = await this.dedupe(
+        `issue:${issueId}`,
+        (requestToken) => this.fetchIssue(issueId, requestToken),
+        token
+      );
 
-        // キャッシュに保存
-        this.cacheService.set(cacheKey, issue);
-        return issue;
-      });
+      // キャッシュに保存
+      this.cacheService.setIssue(issue);
+      return issue;
     } catch (error) {
-      console.error(`Failed to fetch issue details for ${issueId}:`, error);
-
-      // キャッシュが完全に無い場合はエラーを投げる
-      if (!cached) {
-        throw error;
+      if (!(error instanceof vscode.CancellationError)) {
+        logger.error("Failed to fetch issue details", error, { issueId });
       }
+      throw error;
+    }
+  }
 
-      // キャッシュが古くても返す（ユーザー体験改善）
-      console.log(`Returning stale cache for ${issueId} due to API error`);
-      return cached;
+  /**
+   * 関連データを含めてIssueを1件取得する
+   * @param issueId IssueのID
+   * @param token 中断した場合は再試行をやめる
+   */
+  private async fetchIssue(
+    issueId: string,
+    token?: vscode.CancellationToken
+  ): Promise<IssueSnapshot> {
+    const { issue } = await this.rawQuery<IssueQueryResponse>(
+      ISSUE_QUERY,
+      { id: issueId },
+      "Issue",
+      token
+    );
+
+    if (!issue) {
+      throw new Error(`Issue ${issueId} not found`);
     }
+    return toIssueSnapshot(issue);
   }
 
   /**
    * バックグラウンドで課題詳細を更新する
    */
-  private async fetchIssueDetailsInBackground(
-    issueId: string,
-    cacheKey: string
-  ): Promise<void> {
-    try {
-      const issue = await this.client.issue(issueId);
+  private async fetchIssueDetailsInBackground(issueId: string): Promise<void> {
+    // 送信中・未送信の変更がある場合はキャッシュ上の変更後の内容を優先する
+    // レート制限の残量が少ない場合はキャッシュの内容で済ませる
+    if (
+      this.offline ||
+      this.rateLimitBudget.isLow ||
+      this.hasUnsentChanges(issueId)
+    ) {
+      return;
+    }
 
-      // 状態情報を明示的に事前ロード
-      try {
-        const state = await issue.state;
-        console.log(
-          `Background: Preloaded state for issue ${issue.identifier}: ${
-            state?.name || "unknown"
-          }`
-        );
-      } catch (stateError) {
-        console.warn(
-          `Background: Failed to preload state for issue ${issue.identifier}:`,
-          stateError
-        );
+    try {
+      const previous = this.cacheService.getIssue(issueId, 0);
+      const issue = await this.dedupe(`issue:${issueId}`, () =>
+        this.fetchIssue(issueId)
+      );
+      // 取得中に変更が反映された場合は、変更前の内容で上書きしない
+      if (this.hasUnsentChanges(issueId)) {
+        return;
       }
+      this.cacheService.setIssue(issue);
 
-      // URLプロパティを追加
-      if (issue.identifier) {
-        try {
-          const url = await this.getIssueUrl(issueId, issue.identifier);
-          (issue as any).url = url;
-        } catch (error) {
-          console.warn(
-            `バックグラウンド: イシューURL生成失敗 (${issueId}):`,
-            error
-          );
-        }
+      // 内容が変わっていた場合のみ通知する
+      if (!previous || previous.updatedAt !== issue.updatedAt) {
+        this._onDidChangeIssue.fire(issueId);
+        this._onDidChangeIssues.fire();
       }
-
-      this.cacheService.set(cacheKey, issue);
     } catch (error) {
-      console.error(`Background fetch failed for issue ${issueId}:`, error);
+      logger.error("Background fetch failed", error, { issueId });
     }
   }
 
-  public async getIssueComments(issueId: string) {
+  public async getIssueComments(
+    issueId: string,
+    token?: vscode.CancellationToken
+  ) {
     const cacheKey = `comments:${issueId}`;
-    const cached = this.cacheService.get<any[]>(cacheKey);
+    const cached = this.cacheService.get<any[]>(
+      cacheKey,
+      this.offline ? 0 : undefined
+    );
 
     if (cached) {
       // バックグラウンドで更新
@@ -665,19 +1330,45 @@ export class LinearService {
     }
 
     try {
-      const comments = await this.client.comments({
-        filter: {
-          issue: { id: { eq: issueId } },
-        },
-      });
-      const result = comments.nodes;
+      const result = await this.fetchComments(issueId, token);
       this.cacheService.set(cacheKey, result);
       return result;
     } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        throw error;
+      }
       throw new Error(`Failed to fetch comments: ${error}`);
     }
   }
 
+  /**
+   * Issueのコメントを取得する
+   * 同じIssueのコメントの取得が進行中の場合はその結果を共有する
+   * @param token 中断した場合は取得を打ち切る
+   */
+  private fetchComments(
+    issueId: string,
+    token?: vscode.CancellationToken
+  ): Promise<Comment[]> {
+    return this.dedupe(
+      `comments:${issueId}`,
+      async (requestToken) => {
+        const comments = await this.query(
+          () =>
+            this.client.comments({
+              filter: {
+                issue: { id: { eq: issueId } },
+              },
+            }),
+          "comments",
+          requestToken
+        );
+        return comments.nodes;
+      },
+      token
+    );
+  }
+
   /**
    * バックグラウンドでコメントを更新する
    */
@@ -685,34 +1376,83 @@ export class LinearService {
     issueId: string,
     cacheKey: string
   ): Promise<void> {
+    if (
+      this.offline ||
+      this.rateLimitBudget.isLow ||
+      this.mutationQueue.hasPendingFor(issueId)
+    ) {
+      return;
+    }
+
     try {
-      const comments = await this.client.comments({
-        filter: {
-          issue: { id: { eq: issueId } },
-        },
-      });
-      this.cacheService.set(cacheKey, comments.nodes);
+      const previous = this.cacheService.get<any[]>(cacheKey, 0);
+      const comments = await this.fetchComments(issueId);
+      this.cacheService.set(cacheKey, comments);
+
+      // コメントの追加・編集・削除があった場合のみ通知する
+      const signature = (list: any[]) =>
+        list.map((c) => `${c.id}:${c.updatedAt}`).join(",");
+      if (!previous || signature(previous) !== signature(comments)) {
+        this._onDidChangeIssue.fire(issueId);
+      }
     } catch (error) {
-      console.error(
-        `Background fetch failed for comments of issue ${issueId}:`,
-        error
-      );
+      logger.error("Background fetch of comments failed", error, { issueId });
     }
   }
 
-  public async addComment(issueId: string, content: string) {
+  /**
+   * コメントを追加する
+   * オフラインの場合はキューに積み、送信待ちのコメントとしてキャッシュに追加する
+   * @returns キューに積んだ場合はfalse
+   */
+  public async addComment(issueId: string, content: string): Promise<boolean> {
+    if (this.shouldQueueMutation()) {
+      this.queueComment(issueId, content);
+      return false;
+    }
+
     try {
-      await this.client.createComment({
+      await this.mutate(
+        () => this.client.createComment({ issueId, body: content }),
+        "createComment"
+      );
+      this.invalidateAfterMutation({
+        type: "addComment",
         issueId,
         body: content,
       });
-      // コメント追加後にキャッシュを無効化
-      this.cacheService.delete(`comments:${issueId}`);
+      return true;
     } catch (error) {
+      if (isConnectivityError(error)) {
+        this.queueComment(issueId, content);
+        return false;
+      }
       throw new Error(`Failed to add comment: ${error}`);
     }
   }
 
+  private queueComment(issueId: string, body: string): void {
+    const mutation = this.mutationQueue.enqueue({
+      type: "addComment",
+      issueId,
+      body,
+    });
+
+    const cacheKey = `comments:${issueId}`;
+    const comments = this.cacheService.get<any[]>(cacheKey, 0) ?? [];
+    this.cacheService.set(cacheKey, [
+      ...comments,
+      {
+        id: `pending:${mutation.id}`,
+        body,
+        createdAt: mutation.createdAt,
+        updatedAt: mutation.createdAt,
+        pending: true,
+      },
+    ]);
+    this._onDidChangeIssue.fire(issueId);
+  }
+
   public async getTeams(): Promise<Team[]> {
     const cacheKey = "teams";
     const cached = this.cacheService.get<Team[]>(cacheKey);
@@ -722,12 +1462,14 @@ export class LinearService {
     }
 
     try {
-      const teams = await this.client.teams();
+      const teams = await this.dedupe(cacheKey, () =>
+        this.query(() => this.client.teams(), "teams")
+      );
       const result = teams.nodes;
       this.cacheService.set(cacheKey, result);
       return result;
     } catch (error) {
-      console.error("Failed to fetch teams:", error);
+      logger.error("Failed to fetch teams", error);
       throw error;
     }
   }
@@ -738,20 +1480,34 @@ export class LinearService {
     description?: string;
     assigneeId?: string;
     stateId?: string;
-  }): Promise<IssuePayload> {
+  }): Promise<IssuePayload | undefined> {
+    // 作成前のIssueはどの一覧に含まれるか判定できないため、オフライン時はキューに積むのみとする
+    if (this.shouldQueueMutation()) {
+      this.mutationQueue.enqueue({ type: "createIssue", input });
+      return undefined;
+    }
+
     try {
-      const result = await this.client.createIssue({
-        teamId: input.teamId,
-        title: input.title,
-        description: input.description,
-        stateId: input.stateId,
-        assigneeId: input.assigneeId,
-      });
-      // 課題作成後にキャッシュを無効化
-      this.cacheService.invalidateByPrefix("issues:");
+      const result = await this.mutate(
+        () =>
+          this.client.createIssue({
+            teamId: input.teamId,
+            title: input.title,
+            description: input.description,
+            stateId: input.stateId,
+            assigneeId: input.assigneeId,
+          }),
+        "createIssue"
+      );
+      // 作成したIssueを一覧に反映する
+      this.invalidateAfterMutation({ type: "createIssue", input });
       return result;
     } catch (error) {
-      console.error("Failed to create issue:", error);
+      if (isConnectivityError(error)) {
+        this.mutationQueue.enqueue({ type: "createIssue", input });
+        return undefined;
+      }
+      logger.error("Failed to create issue", error);
       throw error;
     }
   }
@@ -764,22 +1520,309 @@ export class LinearService {
       assigneeId?: string;
       stateId?: string;
     }
-  ): Promise<IssuePayload> {
+  ): Promise<IssuePayload | undefined> {
     try {
-      const result = await this.client.updateIssue(issueId, {
-        title: input.title,
-        description: input.description,
-        assigneeId: input.assigneeId,
-        stateId: input.stateId,
-      });
-      // 課題更新後にキャッシュを無効化
-      this.cacheService.delete(`issue:${issueId}`);
-      this.cacheService.invalidateByPrefix("issues:");
+      return await this.updateIssueOptimistically(issueId, input, () =>
+        this.client.updateIssue(issueId, {
+          title: input.title,
+          description: input.description,
+          assigneeId: input.assigneeId,
+          stateId: input.stateId,
+        })
+      );
+    } catch (error) {
+      logger.error("Failed to update issue", error, { issueId });
+      throw error;
+    }
+  }
+
+  /**
+   * Issueの変更をキャッシュに先に反映してからAPIに送信する
+   * - 送信に失敗した場合はキャッシュを変更前の内容に戻して例外を投げる
+   * - オフラインの場合は変更をキューに積み、undefinedを返す
+   * @param issueId IssueのID
+   * @param input 変更するフィールド
+   * @param send APIに変更を送信する処理
+   */
+  private async updateIssueOptimistically(
+    issueId: string,
+    input: {
+      title?: string;
+      description?: string;
+      assigneeId?: string;
+      stateId?: string;
+    },
+    send: () => Promise<IssuePayload>
+  ): Promise<IssuePayload | undefined> {
+    if (this.shouldQueueMutation()) {
+      this.queueIssueUpdate(issueId, input);
+      return undefined;
+    }
+
+    const previous = this.cacheService.getIssue(issueId, 0);
+    const patched = this.patchCachedIssue(issueId, input);
+    if (patched) {
+      this.notifyIssuePatched(patched);
+    }
+
+    this.optimisticUpdates.set(
+      issueId,
+      (this.optimisticUpdates.get(issueId) ?? 0) + 1
+    );
+    try {
+      const result = await this.mutate(send, "updateIssue");
+      // 参照先のステートや担当者がキャッシュになく反映できなかった場合は、そのIssueのみを再取得する
+      if (!patched) {
+        await this.refreshCachedIssue(issueId);
+      }
+      this.invalidateAfterMutation({ type: "updateIssue", issueId, input });
       return result;
     } catch (error) {
-      console.error("Failed to update issue:", error);
+      if (isConnectivityError(error)) {
+        // キャッシュには反映済みのため、キューに積むのみとする
+        this.mutationQueue.enqueue({
+          type: "updateIssue",
+          issueId,
+          baseUpdatedAt: previous?.updatedAt,
+          input,
+        });
+        return undefined;
+      }
+
+      if (patched && previous) {
+        logger.info("Rolling back optimistic update", { issueId });
+        this.cacheService.setIssue(previous);
+        this.notifyIssuePatched(previous);
+      }
       throw error;
+    } finally {
+      const count = (this.optimisticUpdates.get(issueId) ?? 1) - 1;
+      if (count > 0) {
+        this.optimisticUpdates.set(issueId, count);
+      } else {
+        this.optimisticUpdates.delete(issueId);
+      }
+    }
+  }
+
+  /**
+   * キャッシュ上のIssueに、APIにまだ反映されていない変更（送信中・未送信）があるかを返す
+   * この間に取得したIssueでキャッシュを上書きすると、先に反映した変更が表示から消える
+   */
+  private hasUnsentChanges(issueId: string): boolean {
+    return (
+      this.optimisticUpdates.has(issueId) ||
+      this.mutationQueue.hasPendingFor(issueId)
+    );
+  }
+
+  /**
+   * キャッシュ上のIssueを書き換えたことを一覧と詳細に通知する
+   */
+  private notifyIssuePatched(issue: IssueSnapshot): void {
+    this._onDidPatchIssue.fire(issue);
+    this._onDidChangeIssue.fire(issue.id);
+  }
+
+  /**
+   * Issueを1件再取得してキャッシュを更新する
+   */
+  private async refreshCachedIssue(issueId: string): Promise<void> {
+    try {
+      const issue = await this.fetchIssue(issueId);
+      this.cacheService.setIssue(issue);
+      this.notifyIssuePatched(issue);
+    } catch (error) {
+      logger.error("Failed to refresh issue after update", error, { issueId });
+    }
+  }
+
+  /**
+   * Issueの変更をキューに積み、キャッシュ上のIssueに先に反映する
+   * 再送時の競合検出のため、変更前のキャッシュ上の更新日時を記録する
+   */
+  private queueIssueUpdate(
+    issueId: string,
+    input: {
+      title?: string;
+      description?: string;
+      assigneeId?: string;
+      stateId?: string;
+    }
+  ): void {
+    this.mutationQueue.enqueue({
+      type: "updateIssue",
+      issueId,
+      baseUpdatedAt: this.cacheService.getIssue(issueId, 0)?.updatedAt,
+      input,
+    });
+
+    const patched = this.patchCachedIssue(issueId, input);
+    if (patched) {
+      this.notifyIssuePatched(patched);
+    }
+  }
+
+  /**
+   * 未送信の変更を受け付けた順に再送する
+   * 接続できない場合は中断し、競合した変更はユーザーが解決するまで残す
+   */
+  public async replayPendingMutations(): Promise<void> {
+    if (this.isReplaying) {
+      return;
+    }
+
+    this.isReplaying = true;
+    try {
+      for (const mutation of this.mutationQueue.getAll()) {
+        if (mutation.conflict) {
+          continue;
+        }
+
+        try {
+          await this.replayMutation(mutation);
+          this.mutationQueue.remove(mutation.id);
+        } catch (error) {
+          if (isConnectivityError(error)) {
+            this.setOffline(true);
+            throw error;
+          }
+          logger.error("Failed to replay mutation", error, {
+            mutationId: mutation.id,
+          });
+          this.mutationQueue.markConflict(
+            mutation.id,
+            error instanceof Error ? error.message : String(error)
+          );
+          this._onDidDetectConflict.fire(this.mutationQueue.get(mutation.id)!);
+        }
+      }
+    } finally {
+      this.isReplaying = false;
+    }
+  }
+
+  /**
+   * 変更を1件再送する
+   * Issueの変更は、キューに積んだ後にリモートで更新されていた場合に競合とする
+   */
+  private async replayMutation(mutation: PendingMutation): Promise<void> {
+    logger.info(`Replaying ${mutation.type}`, {
+      mutationId: mutation.id,
+      queuedAt: mutation.createdAt,
+    });
+
+    switch (mutation.type) {
+      case "createIssue":
+        await this.mutate(
+          () => this.client.createIssue(mutation.input),
+          "createIssue"
+        );
+        this.invalidateAfterMutation(mutation);
+        break;
+
+      case "updateIssue": {
+        const remote = await this.fetchIssue(mutation.issueId);
+        if (
+          mutation.baseUpdatedAt &&
+          new Date(remote.updatedAt) > new Date(mutation.baseUpdatedAt)
+        ) {
+          // 競合が解決されるまでリモートの内容を表示する
+          this.cacheService.setIssue(remote);
+          this.notifyIssuePatched(remote);
+          throw new MutationConflictError(
+            `${remote.identifier} was changed remotely after this edit`
+          );
+        }
+
+        await this.mutate(
+          () => this.client.updateIssue(mutation.issueId, mutation.input),
+          "updateIssue"
+        );
+        const updated = await this.fetchIssue(mutation.issueId);
+        this.cacheService.setIssue(updated);
+        this.mutationQueue.rebase(mutation.issueId, updated.updatedAt);
+        this.notifyIssuePatched(updated);
+        this.invalidateAfterMutation(mutation);
+        break;
+      }
+
+      case "addComment":
+        await this.mutate(
+          () =>
+            this.client.createComment({
+              issueId: mutation.issueId,
+              body: mutation.body,
+            }),
+          "createComment"
+        );
+        this.invalidateAfterMutation(mutation);
+        this._onDidChangeIssue.fire(mutation.issueId);
+        break;
+    }
+  }
+
+  /**
+   * 未送信の変更（主に競合したもの）を上書きで再送するか破棄する
+   * @param mutationId 変更のID
+   * @param resolution overwrite: リモートの変更を上書きして再送する、discard: 変更を破棄する
+   */
+  public async resolveConflict(
+    mutationId: string,
+    resolution: "overwrite" | "discard"
+  ): Promise<void> {
+    const mutation = this.mutationQueue.get(mutationId);
+    if (!mutation) {
+      return;
+    }
+
+    if (resolution === "discard") {
+      this.mutationQueue.remove(mutationId);
+      if (mutation.type === "addComment") {
+        this.cacheService.delete(`comments:${mutation.issueId}`);
+        this._onDidChangeIssue.fire(mutation.issueId);
+      } else if (mutation.type === "updateIssue") {
+        // キャッシュに残っている破棄した変更をリモートの内容で置き換える
+        this.fetchIssueDetailsInBackground(mutation.issueId);
+      }
+      return;
+    }
+
+    const baseUpdatedAt =
+      mutation.type === "updateIssue"
+        ? this.cacheService.getIssue(mutation.issueId, 0)?.updatedAt
+        : undefined;
+    this.mutationQueue.resolveConflict(mutationId, baseUpdatedAt);
+    await this.replayPendingMutations();
+  }
+
+  /**
+   * 変更内容をキャッシュ上のIssueにのみ反映する
+   * @param issueId IssueのID
+   * @param patch 変更するフィールド（undefinedのフィールドは変更しない）
+   * @returns 変更後のIssue、反映できなかった（Issueや参照先がキャッシュにない）場合はnull
+   */
+  private patchCachedIssue(
+    issueId: string,
+    patch: IssuePatch
+  ): IssueSnapshot | null {
+    const changes: IssuePatch = { updatedAt: new Date().toISOString() };
+    (Object.keys(patch) as (keyof IssuePatch)[]).forEach((key) => {
+      if (patch[key] !== undefined) {
+        (changes as any)[key] = patch[key];
+      }
+    });
+
+    const hasUnknownReference =
+      (changes.stateId &&
+        !this.cacheService.getEntity("states", changes.stateId)) ||
+      (changes.assigneeId &&
+        !this.cacheService.getEntity("users", changes.assigneeId));
+
+    if (hasUnknownReference) {
+      return null;
     }
+    return this.cacheService.patchIssue(issueId, changes);
   }
 
   public async getWorkflowStates(teamId: string): Promise<WorkflowState[]> {
@@ -787,38 +1830,54 @@ export class LinearService {
     const cached = this.cacheService.get<WorkflowState[]>(cacheKey);
 
     if (cached) {
+      this.cacheService.setEntities("states", cached.map(this.toStateSnapshot));
       return cached;
     }
 
     try {
-      const states = await this.client.workflowStates({
-        filter: {
-          team: { id: { eq: teamId } },
-        },
-      });
+      const states = await this.dedupe(cacheKey, () =>
+        this.query(
+          () =>
+            this.client.workflowStates({
+              filter: {
+                team: { id: { eq: teamId } },
+              },
+            }),
+          "workflowStates"
+        )
+      );
       const result = states.nodes;
       this.cacheService.set(cacheKey, result);
+      // Issueのステート変更時に参照できるようエンティティとしても保存
+      this.cacheService.setEntities("states", result.map(this.toStateSnapshot));
       return result;
     } catch (error) {
-      console.error("Failed to fetch workflow states:", error);
+      logger.error("Failed to fetch workflow states", error);
       throw error;
     }
   }
 
+  private toStateSnapshot(state: WorkflowState): IssueStateSnapshot {
+    return {
+      id: state.id,
+      name: state.name,
+      color: state.color,
+      type: state.type,
+    };
+  }
+
   public async updateIssueState(
     issueId: string,
     stateId: string
-  ): Promise<IssuePayload> {
+  ): Promise<IssuePayload | undefined> {
     try {
-      const result = await this.client.updateIssue(issueId, {
-        stateId: stateId,
-      });
-      // 状態変更後にキャッシュを無効化
-      this.cacheService.delete(`issue:${issueId}`);
-      this.cacheService.invalidateByPrefix("issues:");
-      return result;
+      return await this.updateIssueOptimistically(issueId, { stateId }, () =>
+        this.client.updateIssue(issueId, {
+          stateId: stateId,
+        })
+      );
     } catch (error) {
-      console.error("Failed to update issue state:", error);
+      logger.error("Failed to update issue state", error, { issueId });
       throw error;
     }
   }
@@ -832,7 +1891,9 @@ export class LinearService {
     }
 
     try {
-      const project = await this.client.project(projectId);
+      const project = await this.dedupe(cacheKey, () =>
+        this.query(() => this.client.project(projectId), "project")
+      );
       this.cacheService.set(cacheKey, project);
       return project;
     } catch (error) {
@@ -840,7 +1901,7 @@ export class LinearService {
         this.cacheService.set(cacheKey, null);
         return null;
       }
-      console.error("Failed to fetch project:", error);
+      logger.error("Failed to fetch project", error, { projectId });
       throw error;
     }
   }
@@ -854,19 +1915,57 @@ export class LinearService {
     }
 
     try {
-      const projects = await this.client.projects();
+      const projects = await this.dedupe(cacheKey, () =>
+        this.query(() => this.client.projects(), "projects")
+      );
       const result = projects.nodes;
       this.cacheService.set(cacheKey, result);
       return result;
     } catch (error) {
-      console.error("Failed to fetch projects:", error);
+      logger.error("Failed to fetch projects", error);
       throw error;
     }
   }
 
-  public updateApiToken(apiToken: string) {
-    this.initializeClient(apiToken);
+  /**
+   * 別のアカウントに切り替える
+   * キャッシュとオフラインキューを切り替え先のアカウントのものにし、アカウントに紐づくメモリ上の状態を破棄する
+   * @param accountId 切り替え先のアカウントID
+   * @param credential 切り替え先のアカウントの認証情報
+   */
+  public switchAccount(accountId: string, credential: LinearCredential): void {
+    this.initializeClient(credential);
+    this.cacheService.switchNamespace(accountId);
+    this.mutationQueue.switchNamespace(accountId);
+    this.organizationSlug = undefined;
+    this.lastSyncTime = undefined;
+    this.trackedIssueQueries.clear();
+    this._onDidChangeIssues.fire();
+  }
+
+  /**
+   * 認証情報を差し替える
+   * @param credential 新しい認証情報
+   * @param options.keepCache 同じアカウントのトークンを更新しただけの場合はtrue
+   */
+  public updateCredential(
+    credential: LinearCredential,
+    options: { keepCache?: boolean } = {}
+  ) {
+    this.initializeClient(credential);
+    if (!options.keepCache) {
+      this.clearCache();
+    }
+  }
+
+  /**
+   * 接続先（linear.apiUrl）の変更を反映する
+   * 別のAPIのデータが混ざらないよう、キャッシュは破棄する
+   */
+  public reconnect(): void {
+    this.initializeClient(this.credential);
     this.clearCache();
+    this._onDidChangeIssues.fire();
   }
 
   public async getLabels(): Promise<{ id: string; name: string }[]> {
@@ -879,7 +1978,9 @@ export class LinearService {
     }
 
     try {
-      const labels = await this.client.issueLabels();
+      const labels = await this.dedupe(cacheKey, () =>
+        this.query(() => this.client.issueLabels(), "issueLabels")
+      );
       const result = labels.nodes.map((label) => ({
         id: label.id,
         name: label.name,
@@ -887,7 +1988,7 @@ export class LinearService {
       this.cacheService.set(cacheKey, result);
       return result;
     } catch (error) {
-      console.error("Failed to fetch labels:", error);
+      logger.error("Failed to fetch labels", error);
       throw error;
     }
   }
@@ -904,8 +2005,12 @@ export class LinearService {
     }
 
     try {
-      const team = await this.client.team(teamId);
-      const members = await team.members();
+      const members = await this.dedupe(cacheKey, () =>
+        this.query(async () => {
+          const team = await this.client.team(teamId);
+          return team.members();
+        }, "teamMembers")
+      );
       const result = members.nodes.map((member) => ({
         id: member.id,
         name: member.name,
@@ -913,7 +2018,7 @@ export class LinearService {
       this.cacheService.set(cacheKey, result);
       return result;
     } catch (error) {
-      console.error("Failed to fetch team members:", error);
+      logger.error("Failed to fetch team members", error, { teamId });
       throw error;
     }
   }
@@ -930,3 +2035,13 @@ export class LinearService {
     }
   }
 }
+
+/**
+ * 再送しようとした変更がリモートの変更と競合したことを表す
+ */
+class MutationConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MutationConflictError";
+  }
+}
@@ -0,0 +1,177 @@
+import * as vscode from "vscode";
+
+/**
+ * linear.logLevel で指定できるログレベル
+ */
+export type LogLevelSetting =
+  | "off"
+  | "error"
+  | "warn"
+  | "info"
+  | "debug"
+  | "trace";
+
+/**
+ * ログに添える構造化された情報
+ * 出力時はメッセージの後ろにJSONとして付加する
+ */
+export interface LogContext {
+  // APIリクエストの識別子（再試行をまたいで同じ値になる）
+  requestId?: string;
+  // 対象のキャッシュキー
+  cacheKey?: string;
+  // 処理にかかった時間（ミリ秒）
+  durationMs?: number;
+  [key: string]: unknown;
+}
+
+const LEVEL_ORDER: Record<LogLevelSetting, number> = {
+  off: 0,
+  error: 1,
+  warn: 2,
+  info: 3,
+  debug: 4,
+  trace: 5,
+};
+
+const DEFAULT_LEVEL: LogLevelSetting = "info";
+
+/**
+ * すべてのLoggerが共有する出力先
+ * initializeLoggingが呼ばれるまで（拡張機能の外で動かす場合など）はコンソールに出力する
+ */
+class LogSink {
+  channel?: vscode.LogOutputChannel;
+  level: LogLevelSetting = DEFAULT_LEVEL;
+
+  isEnabled(level: Exclude<LogLevelSetting, "off">): boolean {
+    return LEVEL_ORDER[level] <= LEVEL_ORDER[this.level];
+  }
+
+  write(
+    level: Exclude<LogLevelSetting, "off">,
+    line: string,
+    error?: unknown
+  ): void {
+    const args = error === undefined ? [] : [error];
+    if (!this.channel) {
+      const log = level === "trace" ? "debug" : level;
+      console[log](line, ...args);
+      return;
+    }
+
+    if (level === "error") {
+      this.channel.error(line, ...args);
+    } else {
+      this.channel[level](line, ...args);
+    }
+  }
+}
+
+const sink = new LogSink();
+
+/**
+ * 出力チャンネル「Linear」を作成し、linear.logLevel の監視を始める
+ * 拡張機能の有効化時に一度だけ呼び出す
+ */
+export function initializeLogging(): vscode.Disposable {
+  const channel = vscode.window.createOutputChannel("Linear", { log: true });
+  sink.channel = channel;
+  sink.level = readLogLevel();
+
+  const configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+    if (e.affectsConfiguration("linear.logLevel")) {
+      sink.level = readLogLevel();
+    }
+  });
+
+  return new vscode.Disposable(() => {
+    configListener.dispose();
+    if (sink.channel === channel) {
+      sink.channel = undefined;
+    }
+    channel.dispose();
+  });
+}
+
+/**
+ * 出力チャンネル「Linear」を表示する
+ */
+export function showLogs(): void {
+  sink.channel?.show(true);
+}
+
+function readLogLevel(): LogLevelSetting {
+  const level = vscode.workspace
+    .getConfiguration("linear")
+    .get<LogLevelSetting>("logLevel", DEFAULT_LEVEL);
+  return level in LEVEL_ORDER ? level : DEFAULT_LEVEL;
+}
+
+/**
+ * モジュールごとのロガー
+ * 出力にはモジュール名を [scope] として付ける
+ */
+export class Logger {
+  constructor(private readonly scope: string) {}
+
+  error(message: string, error?: unknown, context?: LogContext): void {
+    this.log("error", message, context, error);
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.log("warn", message, context);
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.log("info", message, context);
+  }
+
+  debug(message: string, context?: LogContext): void {
+    this.log("debug", message, context);
+  }
+
+  trace(message: string, context?: LogContext): void {
+    this.log("trace", message, context);
+  }
+
+  /**
+   * 処理時間を計測する
+   * 戻り値の関数を呼び出すと、開始からの経過時間（ミリ秒）を返す
+   */
+  startTimer(): () => number {
+    const startedAt = Date.now();
+    return () => Date.now() - startedAt;
+  }
+
+  private log(
+    level: Exclude<LogLevelSetting, "off">,
+    message: string,
+    context?: LogContext,
+    error?: unknown
+  ): void {
+    if (!sink.isEnabled(level)) {
+      return;
+    }
+    sink.write(level, this.format(message, context), error);
+  }
+
+  private format(message: string, context?: LogContext): string {
+    const line = `[${this.scope}] ${message}`;
+    if (!context) {
+      return line;
+    }
+
+    const entries = Object.entries(context).filter(
+      ([, value]) => value !== undefined
+    );
+    if (entries.length === 0) {
+      return line;
+    }
+    try {
+      return `${line} ${JSON.stringify(Object.fromEntries(entries))}`;
+    } catch {
+      return line;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { LinearError, LinearErrorType } from "@linear/sdk";
+
+// Node.jsのソケット・DNSエラーのうち、オフラインとみなすもの
+const OFFLINE_ERROR_CODES = [
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+];
+
+/**
+ * 障害が続いているため、APIにリクエストを送らずに失敗させたことを表す
+ * 呼び出し側ではネットワークエラーと同じくオフラインとして扱う
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly retryAt: number) {
+    super("Linear API is temporarily unavailable");
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * エラーがネットワーク接続の問題によるものかを判定する
+ * APIからのエラーレスポンス（認証エラーや入力エラーなど）はfalseとなる
+ */
+export function isConnectivityError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) {
+    return true;
+  }
+  if (error instanceof LinearError) {
+    if (error.type === LinearErrorType.NetworkError) {
+      return true;
+    }
+    // レスポンスを受け取れなかった場合はステータスもGraphQLエラーもない
+    if (error.status !== undefined || (error.errors?.length ?? 0) > 0) {
+      return false;
+    }
+    return isConnectivityError(error.raw) || matchesOfflineMessage(error);
+  }
+
+  if (error instanceof Error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code && OFFLINE_ERROR_CODES.includes(code)) {
+      return true;
+    }
+    const cause = (error as { cause?: unknown }).cause;
+    if (cause && isConnectivityError(cause)) {
+      return true;
+    }
+    return matchesOfflineMessage(error);
+  }
+
+  return false;
+}
+
+function matchesOfflineMessage(error: Error): boolean {
+  return (
+    /fetch failed|network|socket hang up/i.test(error.message) ||
+    OFFLINE_ERROR_CODES.some((code) => error.message.includes(code))
+  );
+}
@@ -0,0 +1,230 @@
+import * as vscode from "vscode";
+import { Logger } from "../logging/logger";
+
+const logger = new Logger("MutationQueue");
+
+/**
+ * オフライン中に受け付けた変更操作
+ * - baseUpdatedAt: 操作を受け付けた時点のキャッシュ上のIssueの更新日時（競合の検出に使用）
+ * - conflict: 再送前にIssueがリモートで変更されていた、または再送に失敗した場合にtrue
+ */
+export type PendingMutation =
+  | {
+      id: string;
+      type: "createIssue";
+      createdAt: string;
+      input: {
+        teamId: string;
+        title: string;
+        description?: string;
+        assigneeId?: string;
+        stateId?: string;
+      };
+      conflict?: boolean;
+      conflictReason?: string;
+    }
+  | {
+      id: string;
+      type: "updateIssue";
+      createdAt: string;
+      issueId: string;
+      baseUpdatedAt?: string;
+      input: {
+        title?: string;
+        description?: string;
+        assigneeId?: string;
+        stateId?: string;
+      };
+      conflict?: boolean;
+      conflictReason?: string;
+    }
+  | {
+      id: string;
+      type: "addComment";
+      createdAt: string;
+      issueId: string;
+      body: string;
+      conflict?: boolean;
+      conflictReason?: string;
+    };
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+// 型ごとに共通フィールドを除いた入力
+export type PendingMutationInput = DistributiveOmit<
+  PendingMutation,
+  "id" | "createdAt" | "conflict" | "conflictReason"
+>;
+
+/**
+ * オフライン中の変更操作をglobalStateに永続化するキュー
+ * 操作は受け付けた順に保持し、再送も同じ順で行う
+ */
+export class MutationQueue {
+  private readonly STORAGE_KEY = "linearMutationQueue";
+  private mutations: PendingMutation[];
+  // アカウントごとにキューを分けるための名前空間
+  private namespace?: string;
+  private _onDidChange = new vscode.EventEmitter<void>();
+
+  /**
+   * キューの内容が変わったときに発火する
+   */
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  constructor(private readonly storage: vscode.Memento, namespace?: string) {
+    this.namespace = namespace;
+    this.mutations = this.load();
+  }
+
+  /**
+   * 名前空間（アカウント）を切り替え、そのアカウントのキューを読み込む
+   */
+  public switchNamespace(namespace: string): void {
+    if (this.namespace === namespace) {
+      return;
+    }
+    this.namespace = namespace;
+    this.mutations = this.load();
+    this._onDidChange.fire();
+  }
+
+  /**
+   * 名前空間のキューを削除する（アカウントの削除時に使う）
+   */
+  public removeNamespace(namespace: string): void {
+    if (this.namespace === namespace) {
+      this.mutations = [];
+      this._onDidChange.fire();
+    }
+    this.storage
+      .update(this.getStorageKey(namespace), undefined)
+      .then(undefined, (e) =>
+        logger.error("Failed to remove mutation queue", e)
+      );
+  }
+
+  private load(): PendingMutation[] {
+    const stored = this.storage.get<PendingMutation[]>(this.getStorageKey());
+    return Array.isArray(stored) ? stored : [];
+  }
+
+  private getStorageKey(namespace = this.namespace): string {
+    return namespace ? `${this.STORAGE_KEY}:${namespace}` : this.STORAGE_KEY;
+  }
+
+  public dispose(): void {
+    this._onDidChange.dispose();
+  }
+
+  /**
+   * 変更操作をキューの末尾に追加する
+   */
+  public enqueue(mutation: PendingMutationInput): PendingMutation {
+    const entry = {
+      ...mutation,
+      id: `${Date.now().toString(36)}-${Math.random()
+        .toString(36)
+        .slice(2, 8)}`,
+      createdAt: new Date().toISOString(),
+    } as PendingMutation;
+    this.mutations.push(entry);
+    this.persist();
+    return entry;
+  }
+
+  /**
+   * 受け付けた順に変更操作の一覧を返す
+   */
+  public getAll(): PendingMutation[] {
+    return [...this.mutations];
+  }
+
+  public get size(): number {
+    return this.mutations.length;
+  }
+
+  /**
+   * 再送を待っている操作の数（競合状態の操作は解決されるまで再送しないため含めない）
+   */
+  public get pendingCount(): number {
+    return this.mutations.filter((m) => !m.conflict).length;
+  }
+
+  public get(id: string): PendingMutation | undefined {
+    return this.mutations.find((m) => m.id === id);
+  }
+
+  public remove(id: string): void {
+    const before = this.mutations.length;
+    this.mutations = this.mutations.filter((m) => m.id !== id);
+    if (this.mutations.length !== before) {
+      this.persist();
+    }
+  }
+
+  /**
+   * 変更操作を競合状態としてマークする
+   * 競合状態の操作はユーザーが解決するまで再送しない
+   */
+  public markConflict(id: string, reason: string): void {
+    const mutation = this.get(id);
+    if (mutation) {
+      mutation.conflict = true;
+      mutation.conflictReason = reason;
+      this.persist();
+    }
+  }
+
+  /**
+   * 競合を解決済みとし、リモートの最新状態を基準に再送できるようにする
+   * @param baseUpdatedAt 再送時に基準とするIssueの更新日時
+   */
+  public resolveConflict(id: string, baseUpdatedAt?: string): void {
+    const mutation = this.get(id);
+    if (mutation) {
+      mutation.conflict = false;
+      mutation.conflictReason = undefined;
+      if (mutation.type === "updateIssue") {
+        mutation.baseUpdatedAt = baseUpdatedAt;
+      }
+      this.persist();
+    }
+  }
+
+  /**
+   * 自身の再送でIssueの更新日時が進んだ場合に、同じIssueに対する後続の操作の基準を更新する
+   */
+  public rebase(issueId: string, updatedAt: string): void {
+    let changed = false;
+    this.mutations.forEach((m) => {
+      if (m.type === "updateIssue" && m.issueId === issueId) {
+        m.baseUpdatedAt = updatedAt;
+        changed = true;
+      }
+    });
+    if (changed) {
+      this.persist();
+    }
+  }
+
+  /**
+   * 指定したIssueに対する再送待ちの操作があるかを返す（競合状態の操作は含めない）
+   */
+  public hasPendingFor(issueId: string): boolean {
+    return this.mutations.some(
+      (m) => !m.conflict && m.type !== "createIssue" && m.issueId === issueId
+    );
+  }
+
+  private persist(): void {
+    this.storage
+      .update(this.getStorageKey(), this.mutations)
+      .then(undefined, (e) =>
+        logger.error("Failed to persist mutation queue", e)
+      );
+    this._onDidChange.fire();
+  }
+}
@@ -0,0 +1,161 @@
+import { LinearError, RatelimitedLinearError } from "@linear/sdk";
+
+/**
+ * レスポンスヘッダーのうち、読み取りに必要な部分
+ */
+interface ResponseHeaders {
+  get(name: string): string | null;
+}
+
+/**
+ * 1種類の制限（リクエスト数または複雑度）の残量
+ */
+export interface BudgetSnapshot {
+  limit: number;
+  remaining: number;
+  // 残量がリセットされる時刻（エポックミリ秒）
+  resetAt?: number;
+}
+
+export interface RateLimitBudgetSnapshot {
+  requests?: BudgetSnapshot;
+  complexity?: BudgetSnapshot;
+  // 直近のリクエストで消費した複雑度
+  lastComplexity?: number;
+  // 最後にヘッダーを読み取った時刻（エポックミリ秒）
+  observedAt?: number;
+}
+
+/**
+ * Linear APIのレート制限（1時間あたりのリクエスト数と複雑度）の残量を追跡する
+ * 値はレスポンスヘッダー（X-RateLimit-*）から更新する
+ */
+export class RateLimitBudget {
+  // 残量がこの割合を下回ったらバックグラウンドの処理を控える
+  private readonly LOW_BUDGET_RATIO = 0.1;
+
+  private requests?: BudgetSnapshot;
+  private complexity?: BudgetSnapshot;
+  private lastComplexity?: number;
+  private observedAt?: number;
+
+  /**
+   * 成功したレスポンスのヘッダーから残量を更新する
+   */
+  observe(headers: ResponseHeaders | undefined): void {
+    if (!headers) {
+      return;
+    }
+
+    const requests = this.readBudget(headers, "requests");
+    const complexity = this.readBudget(headers, "complexity");
+    const lastComplexity = this.parseNumber(headers.get("x-complexity"));
+    if (!requests && !complexity && lastComplexity === undefined) {
+      return;
+    }
+
+    this.requests = requests ?? this.requests;
+    this.complexity = complexity ?? this.complexity;
+    this.lastComplexity = lastComplexity ?? this.lastComplexity;
+    this.observedAt = Date.now();
+  }
+
+  /**
+   * 失敗したリクエストのエラーから残量を更新する
+   * レート制限のエラーでヘッダーがない場合も、リクエスト数を使い切ったものとみなす
+   */
+  observeError(error: unknown): void {
+    if (!(error instanceof LinearError)) {
+      return;
+    }
+    this.observe(error.raw?.response?.headers);
+
+    if (error instanceof RatelimitedLinearError && !this.isExhausted()) {
+      this.requests = {
+        limit: error.requestsLimit ?? this.requests?.limit ?? 0,
+        remaining: 0,
+        resetAt:
+          error.requestsResetAt ??
+          (error.retryAfter !== undefined
+            ? Date.now() + error.retryAfter * 1000
+            : undefined),
+      };
+      this.observedAt = Date.now();
+    }
+  }
+
+  /**
+   * 残量を破棄する（別のアカウントに切り替えたときなど）
+   */
+  reset(): void {
+    this.requests = undefined;
+    this.complexity = undefined;
+    this.lastComplexity = undefined;
+    this.observedAt = undefined;
+  }
+
+  getSnapshot(): RateLimitBudgetSnapshot {
+    return {
+      requests: this.current(this.requests),
+      complexity: this.current(this.complexity),
+      lastComplexity: this.lastComplexity,
+      observedAt: this.observedAt,
+    };
+  }
+
+  /**
+   * リクエスト数・複雑度のいずれかの残量が少ない場合はtrue
+   */
+  get isLow(): boolean {
+    return [this.requests, this.complexity].some((budget) => {
+      const current = this.current(budget);
+      return (
+        current !== undefined &&
+        current.limit > 0 &&
+        current.remaining < current.limit * this.LOW_BUDGET_RATIO
+      );
+    });
+  }
+
+  private isExhausted(): boolean {
+    return [this.requests, this.complexity].some(
+      (budget) => this.current(budget)?.remaining === 0
+    );
+  }
+
+  /**
+   * リセット時刻を過ぎた残量は上限まで回復したものとして返す
+   */
+  private current(budget?: BudgetSnapshot): BudgetSnapshot | undefined {
+    if (budget?.resetAt !== undefined && Date.now() >= budget.resetAt) {
+      return { limit: budget.limit, remaining: budget.limit };
+    }
+    return budget;
+  }
+
+  private readBudget(
+    headers: ResponseHeaders,
+    type: "requests" | "complexity"
+  ): BudgetSnapshot | undefined {
+    const limit = this.parseNumber(headers.get(`x-ratelimit-${type}-limit`));
+    const remaining = this.parseNumber(
+      headers.get(`x-ratelimit-${type}-remaining`)
+    );
+    if (limit === undefined || remaining === undefined) {
+      return undefined;
+    }
+    return {
+      limit,
+      remaining,
+      resetAt: this.parseNumber(headers.get(`x-ratelimit-${type}-reset`)),
+    };
+  }
+
+  private parseNumber(value: string | null): number | undefined {
+    if (value === null || value === "") {
+      return undefined;
+    }
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+}
@@ -0,0 +1,302 @@
+import * as vscode from "vscode";
+import {
+  LinearError,
+  LinearErrorType,
+  RatelimitedLinearError,
+} from "@linear/sdk";
+import { CircuitOpenError, isConnectivityError } from "../offline/connectivity";
+import { Logger } from "../logging/logger";
+
+const logger = new Logger("RequestPipeline");
+
+/**
+ * リクエストの失敗の分類
+ * - auth: 認証情報が無効、または権限がない
+ * - rateLimit: レート制限に達した
+ * - network: APIに到達できない
+ * - server: APIのサーバーエラー（5xx）
+ * - validation: 入力内容やクエリの誤り
+ * - unknown: 上記以外
+ */
+export type RequestErrorKind =
+  | "auth"
+  | "rateLimit"
+  | "network"
+  | "server"
+  | "validation"
+  | "unknown";
+
+/**
+ * サーキットブレーカーの状態
+ * - closed: 通常どおりリクエストを送る
+ * - open: 障害が続いているため、リクエストを送らずに失敗させる
+ * - halfOpen: 待機時間が過ぎたため、1件だけ試しに送って回復を確認する
+ */
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+export interface RequestOptions {
+  // 同じリクエストを再送しても結果が変わらない（クエリなど）場合はtrue
+  idempotent: boolean;
+  // ログに出力するリクエストの名前
+  label?: string;
+  // ログに出力するリクエストの識別子
+  requestId?: string;
+  // 中断した場合は、再試行や再試行までの待機をやめて vscode.CancellationError で失敗する
+  token?: vscode.CancellationToken;
+}
+
+/**
+ * リクエストのエラーを分類する
+ */
+export function classifyRequestError(error: unknown): RequestErrorKind {
+  if (error instanceof CircuitOpenError) {
+    return "network";
+  }
+
+  if (error instanceof LinearError) {
+    switch (error.type) {
+      case LinearErrorType.AuthenticationError:
+      case LinearErrorType.Forbidden:
+        return "auth";
+      case LinearErrorType.Ratelimited:
+        return "rateLimit";
+      case LinearErrorType.InternalError:
+      case LinearErrorType.LockTimeout:
+        return "server";
+      case LinearErrorType.NetworkError:
+        // SDKは5xxのレスポンスもNetworkErrorとするため、ステータスで区別する
+        return (error.status ?? 0) >= 500 ? "server" : "network";
+      case LinearErrorType.InvalidInput:
+      case LinearErrorType.UserError:
+      case LinearErrorType.GraphqlError:
+      case LinearErrorType.FeatureNotAccessible:
+      case LinearErrorType.UsageLimitExceeded:
+        return "validation";
+    }
+    if ((error.status ?? 0) >= 500) {
+      return "server";
+    }
+  }
+
+  return isConnectivityError(error) ? "network" : "unknown";
+}
+
+/**
+ * APIへのリクエストを共通の方針で実行する
+ * - クエリなど再送しても安全なリクエストは、ネットワークエラー・サーバーエラー時にジッター付きの指数バックオフで再試行する
+ * - レート制限時はレスポンスヘッダーのリセット時刻まで待ってから再試行する（変更操作も対象）
+ * - ネットワークエラー・サーバーエラーが続いた場合はサーキットブレーカーを開き、一定時間リクエストを送らずに失敗させる
+ */
+export class RequestPipeline implements vscode.Disposable {
+  private readonly MAX_ATTEMPTS = 3;
+  private readonly BASE_DELAY = 1000;
+  private readonly MAX_DELAY = 30 * 1000;
+  // レート制限のリセットまでこれ以上待つ必要がある場合は再試行せずに失敗させる
+  private readonly MAX_RATE_LIMIT_WAIT = 60 * 1000;
+  // サーキットブレーカーを開くまでの連続失敗回数
+  private readonly FAILURE_THRESHOLD = 3;
+  // サーキットブレーカーを開いてから試しにリクエストを送るまでの時間
+  private readonly OPEN_DURATION = 60 * 1000;
+
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  // halfOpen 中に回復確認のリクエストを送信中の場合はtrue
+  private probing = false;
+
+  private _onDidChangeState = new vscode.EventEmitter<CircuitState>();
+
+  /**
+   * サーキットブレーカーの状態が変わったときに発火する
+   */
+  readonly onDidChangeState: vscode.Event<CircuitState> =
+    this._onDidChangeState.event;
+
+  get circuitState(): CircuitState {
+    return this.state;
+  }
+
+  dispose(): void {
+    this._onDidChangeState.dispose();
+  }
+
+  /**
+   * サーキットブレーカーを閉じた状態に戻す（アカウントや接続先を切り替えたときなど）
+   */
+  reset(): void {
+    this.consecutiveFailures = 0;
+    this.probing = false;
+    this.setState("closed");
+  }
+
+  /**
+   * リクエストを実行する
+   * @param operation APIにリクエストを送る処理（再試行のたびに呼び出す）
+   * @param options リクエストの性質
+   */
+  async execute<T>(
+    operation: () => Promise<T>,
+    options: RequestOptions
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      if (options.token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
+      this.beforeRequest();
+
+      try {
+        const result = await operation();
+        this.recordSuccess();
+        return result;
+      } catch (error) {
+        const kind = classifyRequestError(error);
+        this.recordFailure(kind);
+
+        const delay = this.getRetryDelay(error, kind, attempt, options);
+        if (delay === undefined) {
+          throw error;
+        }
+        const label = options.label ?? "Request";
+        logger.warn(`${label} failed (${kind}), retrying in ${delay}ms`, {
+          requestId: options.requestId,
+          attempt,
+          maxAttempts: this.MAX_ATTEMPTS,
+        });
+        await this.wait(delay, options.token);
+      }
+    }
+  }
+
+  /**
+   * 再試行までの時間を待つ
+   * 待機中に中断された場合は vscode.CancellationError で失敗する
+   */
+  private wait(delay: number, token?: vscode.CancellationToken): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        listener?.dispose();
+        resolve();
+      }, delay);
+      const listener = token?.onCancellationRequested(() => {
+        clearTimeout(timer);
+        listener?.dispose();
+        reject(new vscode.CancellationError());
+      });
+    });
+  }
+
+  /**
+   * サーキットブレーカーが開いている場合はリクエストを送らずに失敗させる
+   */
+  private beforeRequest(): void {
+    if (this.state === "closed") {
+      return;
+    }
+
+    const retryAt = this.openedAt + this.OPEN_DURATION;
+    if (this.state === "open" && Date.now() >= retryAt) {
+      this.setState("halfOpen");
+    }
+    if (this.state === "halfOpen" && !this.probing) {
+      this.probing = true;
+      return;
+    }
+    throw new CircuitOpenError(retryAt);
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.probing = false;
+    this.setState("closed");
+  }
+
+  private recordFailure(kind: RequestErrorKind): void {
+    if (kind !== "network" && kind !== "server") {
+      // APIには到達できているため、回復確認としては成功とみなす
+      if (this.probing) {
+        this.recordSuccess();
+      }
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.probing || this.consecutiveFailures >= this.FAILURE_THRESHOLD) {
+      this.probing = false;
+      this.openedAt = Date.now();
+      this.setState("open");
+    }
+  }
+
+  /**
+   * 再試行までの待ち時間を返す
+   * @returns 再試行しない場合はundefined
+   */
+  private getRetryDelay(
+    error: unknown,
+    kind: RequestErrorKind,
+    attempt: number,
+    options: RequestOptions
+  ): number | undefined {
+    if (attempt >= this.MAX_ATTEMPTS || this.state === "open") {
+      return undefined;
+    }
+
+    if (kind === "rateLimit") {
+      // レート制限のエラーは処理されていないため、変更操作も再送できる
+      const wait = this.getRateLimitWait(error) ?? this.getBackoff(attempt);
+      return wait <= this.MAX_RATE_LIMIT_WAIT ? wait : undefined;
+    }
+
+    if (options.idempotent && (kind === "network" || kind === "server")) {
+      return this.getBackoff(attempt);
+    }
+    return undefined;
+  }
+
+  /**
+   * 指数バックオフの待ち時間を返す
+   * 複数のリクエストが同時に再試行しないよう、上限までの範囲でランダムにする（full jitter）
+   */
+  private getBackoff(attempt: number): number {
+    const cap = Math.min(this.MAX_DELAY, this.BASE_DELAY * 2 ** attempt);
+    return Math.round(Math.random() * cap);
+  }
+
+  /**
+   * レート制限のレスポンスヘッダーからリセットまでの時間を求める
+   * Retry-After（秒）を優先し、なければ使い切った方の制限（リクエスト数・複雑度）のリセット時刻（エポックミリ秒）を使う
+   */
+  private getRateLimitWait(error: unknown): number | undefined {
+    if (!(error instanceof RatelimitedLinearError)) {
+      return undefined;
+    }
+    if (error.retryAfter !== undefined && !isNaN(error.retryAfter)) {
+      return error.retryAfter * 1000;
+    }
+
+    const limits = [
+      { remaining: error.requestsRemaining, resetAt: error.requestsResetAt },
+      {
+        remaining: error.complexityRemaining,
+        resetAt: error.complexityResetAt,
+      },
+    ];
+    const exhausted = limits.filter((limit) => limit.remaining === 0);
+    const resetAt = (exhausted.length > 0 ? exhausted : limits)
+      .map((limit) => limit.resetAt)
+      .filter((value): value is number => value !== undefined && !isNaN(value));
+    if (resetAt.length === 0) {
+      return undefined;
+    }
+    return Math.max(0, Math.max(...resetAt) - Date.now());
+  }
+
+  private setState(state: CircuitState): void {
+    if (this.state === state) {
+      return;
+    }
+    logger.info(`Circuit ${this.state} -> ${state}`);
+    this.state = state;
+    this._onDidChangeState.fire(state);
+  }
+}
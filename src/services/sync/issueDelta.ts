@@ -0,0 +1,55 @@
+import { IssueSnapshot } from "../../models/issueSnapshot";
+
+export interface IssueDeltaResult {
+  // 差分を反映した一覧
+  issues: IssueSnapshot[];
+  // 一覧内で更新または追加されたIssueのID
+  updatedIds: string[];
+  // フィルターに一致しなくなり一覧から除外されたIssueのID
+  removedIds: string[];
+}
+
+/**
+ * キャッシュ済みの一覧に差分取得の結果を反映する
+ *
+ * @param cached キャッシュ済みの一覧
+ * @param matching 前回同期以降に更新され、現在もフィルターに一致するIssue
+ * @param changed 前回同期以降に更新されたIssue（フィルターを問わず、アーカイブ済みを含む）
+ *   ここに含まれ matching に含まれないIssueは、担当者の変更・完了・アーカイブ・
+ *   プロジェクト移動などでフィルターから外れたものとして一覧から取り除く
+ */
+export function applyIssueDelta(
+  cached: IssueSnapshot[],
+  matching: IssueSnapshot[],
+  changed: IssueSnapshot[]
+): IssueDeltaResult {
+  const matchingById = new Map(
+    matching
+      .filter((issue) => !issue.archivedAt)
+      .map((issue) => [issue.id, issue])
+  );
+  const cachedIds = new Set(cached.map((issue) => issue.id));
+
+  const removedIds = new Set<string>();
+  [...changed, ...matching].forEach((issue) => {
+    if (cachedIds.has(issue.id) && !matchingById.has(issue.id)) {
+      removedIds.add(issue.id);
+    }
+  });
+
+  // 既存のIssueは並び順を保ったまま置き換え、新しく一致したIssueは末尾に追加する
+  const issues = cached
+    .filter((issue) => !removedIds.has(issue.id))
+    .map((issue) => matchingById.get(issue.id) ?? issue);
+  matchingById.forEach((issue, id) => {
+    if (!cachedIds.has(id)) {
+      issues.push(issue);
+    }
+  });
+
+  return {
+    issues,
+    updatedIds: Array.from(matchingById.keys()),
+    removedIds: Array.from(removedIds),
+  };
+}
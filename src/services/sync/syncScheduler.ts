@@ -0,0 +1,160 @@
+import * as vscode from "vscode";
+import { LinearService } from "../linearService";
+import { Logger } from "../logging/logger";
+
+const logger = new Logger("Sync");
+
+/**
+ * Issue一覧を定期的に差分同期するスケジューラー
+ * - 同期間隔は linear.syncInterval（秒）で設定し、0で無効
+ * - VSCodeのウィンドウがフォーカスを失っている間は停止し、戻ったときに必要なら即座に同期する
+ * - 失敗が続いた場合は間隔を倍々に延ばす
+ */
+export class SyncScheduler implements vscode.Disposable {
+  private readonly DEFAULT_INTERVAL_SECONDS = 300;
+  private readonly MIN_INTERVAL_SECONDS = 30;
+  private readonly MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+  private timer?: NodeJS.Timeout;
+  private isRunning = false;
+  private isStarted = false;
+  private lastSyncAt = 0;
+  private consecutiveFailures = 0;
+  private isFocused = vscode.window.state.focused;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly linearService: LinearService) {
+    this.disposables.push(
+      vscode.window.onDidChangeWindowState((state) =>
+        this.onWindowStateChanged(state.focused)
+      ),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("linear.syncInterval")) {
+          logger.info("Sync interval changed, rescheduling");
+          this.reschedule();
+        }
+      })
+    );
+  }
+
+  /**
+   * 定期同期を開始する
+   */
+  start(): void {
+    this.isStarted = true;
+    this.lastSyncAt = Date.now();
+    this.reschedule();
+  }
+
+  /**
+   * 定期同期を停止する
+   */
+  stop(): void {
+    this.isStarted = false;
+    this.clearTimer();
+  }
+
+  dispose(): void {
+    this.stop();
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * 設定から同期間隔を取得する
+   * @returns ミリ秒単位の間隔、無効の場合は0
+   */
+  private getIntervalMs(): number {
+    const seconds = vscode.workspace
+      .getConfiguration("linear")
+      .get<number>("syncInterval", this.DEFAULT_INTERVAL_SECONDS);
+    if (!seconds || seconds <= 0) {
+      return 0;
+    }
+    return Math.max(seconds, this.MIN_INTERVAL_SECONDS) * 1000;
+  }
+
+  /**
+   * 失敗回数に応じて延長した次回までの待ち時間を返す
+   */
+  private getNextDelayMs(intervalMs: number): number {
+    if (this.consecutiveFailures === 0) {
+      return intervalMs;
+    }
+    return Math.min(
+      intervalMs * Math.pow(2, this.consecutiveFailures),
+      Math.max(intervalMs, this.MAX_BACKOFF_MS)
+    );
+  }
+
+  private onWindowStateChanged(focused: boolean): void {
+    this.isFocused = focused;
+
+    if (!focused) {
+      logger.debug("Window lost focus, pausing background sync");
+      this.clearTimer();
+      return;
+    }
+
+    logger.debug("Window focused, resuming background sync");
+    this.reschedule();
+  }
+
+  /**
+   * 前回の同期時刻をもとに次回の同期を予約し直す
+   * 予定時刻を過ぎている場合はすぐに同期する
+   */
+  private reschedule(): void {
+    this.clearTimer();
+
+    const intervalMs = this.getIntervalMs();
+    if (!this.isStarted || !this.isFocused || intervalMs === 0) {
+      return;
+    }
+
+    const elapsed = Date.now() - this.lastSyncAt;
+    const delay = Math.max(0, this.getNextDelayMs(intervalMs) - elapsed);
+    this.timer = setTimeout(() => this.run(), delay);
+  }
+
+  private async run(): Promise<void> {
+    this.timer = undefined;
+    if (this.isRunning) {
+      return;
+    }
+
+    // レート制限の残量が少ない間は同期を見送り、次の周期で再判定する
+    // 見送った時刻を前回の同期時刻とし、すぐに再実行しないようにする
+    if (this.linearService.isBudgetLow) {
+      logger.info("Background sync skipped: Linear API budget is low");
+      this.lastSyncAt = Date.now();
+      this.reschedule();
+      return;
+    }
+
+    this.isRunning = true;
+    const elapsed = logger.startTimer();
+    try {
+      await this.linearService.syncIssues();
+      this.consecutiveFailures = 0;
+      logger.debug("Background sync finished", { durationMs: elapsed() });
+    } catch (error) {
+      this.consecutiveFailures++;
+      logger.error("Background sync failed", error, {
+        consecutiveFailures: this.consecutiveFailures,
+        durationMs: elapsed(),
+      });
+    } finally {
+      this.isRunning = false;
+      this.lastSyncAt = Date.now();
+      this.reschedule();
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import * as path from "path";
+import { runTests } from "vscode-test";
+
+/**
+ * VSCodeをダウンロードして起動し、拡張機能の開発ホスト上でテストを実行する
+ */
+async function main() {
+  try {
+    // package.json のあるディレクトリ（out/src/test から3階層上）
+    const extensionDevelopmentPath = path.resolve(__dirname, "../../../");
+    const extensionTestsPath = path.resolve(__dirname, "./suite/index");
+
+    await runTests({
+      extensionDevelopmentPath,
+      extensionTestsPath,
+      launchArgs: ["--disable-extensions"],
+    });
+  } catch (error) {
+    console.error("Failed to run tests", error);
+    process.exit(1);
+  }
+}
+
+main();
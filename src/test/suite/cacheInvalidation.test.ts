@@ -0,0 +1,91 @@
+import * as assert from "assert";
+import {
+  CacheReferenceLookup,
+  planCacheInvalidation,
+} from "../../services/cache/cacheInvalidation";
+import { getIssuesCacheKey } from "../../services/linearService";
+
+// issue-eng-1 は自分の一覧とチームの一覧に、issue-eng-4 は未割り当ての一覧とチームの一覧に含まれる
+const MY_ISSUES = getIssuesCacheKey(false, {});
+const TEAM_ISSUES = getIssuesCacheKey(false, {
+  scope: { type: "team", teamIds: ["team-eng"] },
+});
+const UNASSIGNED_ISSUES = getIssuesCacheKey(false, {
+  scope: { type: "unassigned" },
+});
+
+const lookup: CacheReferenceLookup = {
+  getIssueListKeys: () => [MY_ISSUES, TEAM_ISSUES, UNASSIGNED_ISSUES],
+};
+
+const ALL_LISTS = [MY_ISSUES, TEAM_ISSUES, UNASSIGNED_ISSUES].sort();
+
+suite("planCacheInvalidation", () => {
+  test("syncs every issue list after creating an issue", () => {
+    const plan = planCacheInvalidation(
+      {
+        type: "createIssue",
+        input: { teamId: "team-eng", title: "New issue" },
+      },
+      lookup
+    );
+
+    assert.deepStrictEqual(plan.evict, []);
+    assert.deepStrictEqual([...plan.sync].sort(), ALL_LISTS);
+  });
+
+  test("syncs every issue list when the state changes", () => {
+    const plan = planCacheInvalidation(
+      {
+        type: "updateIssue",
+        issueId: "issue-eng-1",
+        input: { stateId: "eng-done" },
+      },
+      lookup
+    );
+
+    assert.deepStrictEqual(plan.evict, []);
+    assert.deepStrictEqual([...plan.sync].sort(), ALL_LISTS);
+  });
+
+  test("syncs lists that did not contain the issue when the assignee changes", () => {
+    // 自分にアサインしたIssueは、含まれていなかった自分の一覧にも加わる
+    const plan = planCacheInvalidation(
+      {
+        type: "updateIssue",
+        issueId: "issue-eng-4",
+        input: { assigneeId: "user-me" },
+      },
+      lookup
+    );
+
+    assert.deepStrictEqual(plan.evict, []);
+    assert.ok(plan.sync.includes(MY_ISSUES));
+    assert.deepStrictEqual([...plan.sync].sort(), ALL_LISTS);
+  });
+
+  test("leaves lists alone when only the title changes", () => {
+    const plan = planCacheInvalidation(
+      {
+        type: "updateIssue",
+        issueId: "issue-eng-1",
+        input: { title: "Renamed" },
+      },
+      lookup
+    );
+
+    assert.deepStrictEqual(plan, { evict: [], sync: [] });
+  });
+
+  test("evicts only the comments of the issue after adding a comment", () => {
+    const plan = planCacheInvalidation(
+      { type: "addComment", issueId: "issue-eng-1", body: "Looking into it." },
+      lookup
+    );
+
+    assert.deepStrictEqual(plan, {
+      evict: ["comments:issue-eng-1"],
+      sync: [],
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import * as assert from "assert";
+import {
+  CACHE_SCHEMA_VERSION,
+  createCacheEnvelope,
+  readPersistedCache,
+} from "../../services/cache/cacheSchema";
+import type { CacheItem } from "../../services/cache/cacheService";
+import type { IssueListInfo } from "../../services/linearService";
+
+const SDK_VERSION = "39.2.1";
+const SAVED_AT = 1700000000000;
+
+function entry<T>(data: T, lastUpdateId?: string) {
+  return { data, timestamp: SAVED_AT, lastUpdateId };
+}
+
+const ENTITIES = {
+  states: {
+    "eng-todo": {
+      data: {
+        id: "eng-todo",
+        name: "Todo",
+        color: "#e2e2e2",
+        type: "unstarted",
+      },
+      timestamp: SAVED_AT,
+    },
+  },
+};
+
+suite("readPersistedCache", () => {
+  test("migrates unversioned data saved with its entities under a separate key", () => {
+    const raw = {
+      // IDのリストに変更した後のIssue一覧
+      'issues:{"assignedToMe":true}': entry(["issue-eng-1", "issue-eng-2"]),
+      // IDのリストに変更する前の、Issueの配列のままのIssue一覧
+      'issues:{"assignedToMe":false}': entry([
+        { id: "issue-eng-1", title: "Fix login redirect loop" },
+      ]),
+      "comments:issue-eng-1": entry([{ id: "comment-1", body: "Looking" }]),
+      teams: entry([{ id: "team-eng", name: "Engineering" }]),
+    };
+
+    const result = readPersistedCache(raw, ENTITIES, SDK_VERSION);
+
+    assert.ok(result);
+    assert.strictEqual(result.migrated, true);
+    assert.deepStrictEqual(
+      Object.keys(result.entries).sort(),
+      ['issues:{"assignedToMe":true}', "comments:issue-eng-1"].sort()
+    );
+    // Issueの配列は変換時に、SDKのモデルはSDKのバージョンが記録されていないため破棄する
+    assert.deepStrictEqual(result.discardedKeys, ["teams"]);
+    assert.deepStrictEqual(result.entities, ENTITIES);
+  });
+
+  test("migrates a version 1 envelope", () => {
+    const raw = {
+      version: 1,
+      sdkVersion: SDK_VERSION,
+      savedAt: SAVED_AT,
+      entries: {
+        'issues:{"assignedToMe":true}': entry(["issue-eng-1"], "2024-01-01"),
+        'issues:{"teamId":"team-eng"}': entry([{ id: "issue-eng-1" }]),
+        workflowStates: entry([{ id: "eng-todo", name: "Todo" }]),
+      },
+      entities: ENTITIES,
+    };
+
+    const result = readPersistedCache(raw, undefined, SDK_VERSION);
+
+    assert.ok(result);
+    assert.strictEqual(result.migrated, true);
+    assert.deepStrictEqual(Object.keys(result.entries).sort(), [
+      'issues:{"assignedToMe":true}',
+      "workflowStates",
+    ]);
+    assert.strictEqual(
+      result.entries['issues:{"assignedToMe":true}'].lastUpdateId,
+      "2024-01-01"
+    );
+    assert.deepStrictEqual(result.discardedKeys, []);
+    assert.deepStrictEqual(result.entities, ENTITIES);
+  });
+
+  test("drops SDK models when the SDK version changed", () => {
+    const raw = createCacheEnvelope(
+      {
+        'issues:{"assignedToMe":true}': entry(["issue-eng-1"]),
+        teams: entry([{ id: "team-eng", name: "Engineering" }]),
+        workflowStates: entry([{ id: "eng-todo", name: "Todo" }]),
+        "projects:team-eng": entry([{ id: "project-web", name: "Web App" }]),
+        "comments:issue-eng-1": entry([]),
+      },
+      ENTITIES,
+      "38.0.0"
+    );
+
+    const result = readPersistedCache(raw, undefined, SDK_VERSION);
+
+    assert.ok(result);
+    assert.strictEqual(result.migrated, false);
+    assert.deepStrictEqual(Object.keys(result.entries).sort(), [
+      "comments:issue-eng-1",
+      'issues:{"assignedToMe":true}',
+    ]);
+    assert.deepStrictEqual(result.discardedKeys.sort(), [
+      "projects:team-eng",
+      "teams",
+      "workflowStates",
+    ]);
+  });
+
+  test("keeps SDK models saved with the same SDK version", () => {
+    const raw = createCacheEnvelope(
+      { teams: entry([{ id: "team-eng", name: "Engineering" }]) },
+      ENTITIES,
+      SDK_VERSION
+    );
+
+    const result = readPersistedCache(raw, undefined, SDK_VERSION);
+
+    assert.ok(result);
+    assert.deepStrictEqual(Object.keys(result.entries), ["teams"]);
+    assert.deepStrictEqual(result.discardedKeys, []);
+  });
+
+  test("drops entries that cannot be read", () => {
+    const raw = createCacheEnvelope(
+      {
+        "comments:issue-eng-1": { data: [] } as unknown as CacheItem<never[]>,
+        "comments:issue-eng-2": entry([], 42 as unknown as string),
+        'issues:{"assignedToMe":true}': entry("issue-eng-1"),
+        'issues:{"teamId":"team-eng"}': {
+          ...entry(["issue-eng-1"]),
+          listInfo: { total: "1" } as unknown as IssueListInfo,
+        },
+        teams: entry([{ name: "Engineering" }]),
+      },
+      ENTITIES,
+      SDK_VERSION
+    );
+
+    const result = readPersistedCache(raw, undefined, SDK_VERSION);
+
+    assert.ok(result);
+    assert.deepStrictEqual(result.entries, {});
+    assert.strictEqual(result.discardedKeys.length, 5);
+  });
+
+  test("does not read data saved by a newer version", () => {
+    const raw = {
+      ...createCacheEnvelope({}, {}, SDK_VERSION),
+      version: CACHE_SCHEMA_VERSION + 1,
+    };
+
+    assert.strictEqual(
+      readPersistedCache(raw, undefined, SDK_VERSION),
+      undefined
+    );
+    assert.strictEqual(
+      readPersistedCache("broken", undefined, SDK_VERSION),
+      undefined
+    );
+  });
+});
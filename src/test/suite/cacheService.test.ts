@@ -0,0 +1,61 @@
+import * as assert from "assert";
+import { CacheService } from "../../services/cache/cacheService";
+import { MementoCacheStorage } from "../../services/cache/cacheStorage";
+import { createIssueSnapshot, TestMemento } from "./helpers";
+
+const LIST_KEY = 'issues:{"assignedToMe":true}';
+
+suite("CacheService", () => {
+  let memento: TestMemento;
+  let cacheService: CacheService;
+
+  // 同じ保存先からキャッシュを読み込み直す（VSCodeの再読み込みに相当）
+  const reload = () => {
+    cacheService.dispose();
+    cacheService = new CacheService(new MementoCacheStorage(memento), "test");
+  };
+
+  setup(() => {
+    memento = new TestMemento();
+    cacheService = new CacheService(new MementoCacheStorage(memento), "test");
+  });
+
+  teardown(() => {
+    cacheService.dispose();
+  });
+
+  test("keeps the issue list info after a reload", () => {
+    cacheService.setIssueList(
+      LIST_KEY,
+      [createIssueSnapshot("issue-1"), createIssueSnapshot("issue-2")],
+      "2024-01-01T00:00:00.000Z",
+      { total: 2, hasMore: true }
+    );
+
+    reload();
+
+    assert.deepStrictEqual(
+      cacheService.getIssueList(LIST_KEY, 0)?.map((issue) => issue.id),
+      ["issue-1", "issue-2"]
+    );
+    assert.deepStrictEqual(cacheService.getIssueListInfo(LIST_KEY), {
+      total: 2,
+      hasMore: true,
+    });
+  });
+
+  test("counts the cached issues for a list saved without its info", () => {
+    cacheService.setIssueList(LIST_KEY, [
+      createIssueSnapshot("issue-1"),
+      createIssueSnapshot("issue-2"),
+    ]);
+
+    reload();
+
+    assert.deepStrictEqual(cacheService.getIssueListInfo(LIST_KEY), {
+      total: 2,
+      hasMore: false,
+    });
+    assert.strictEqual(cacheService.getIssueListInfo("issues:{}"), undefined);
+  });
+});
@@ -0,0 +1,151 @@
+import * as vscode from "vscode";
+import { IssueSnapshot } from "../../models/issueSnapshot";
+import { IssueTreeProvider } from "../../providers/issueTreeProvider";
+
+/**
+ * プロバイダーの生成に必要な分だけを持つ ExtensionContext
+ */
+export function createTestContext(): vscode.ExtensionContext {
+  return {
+    subscriptions: [],
+    extensionUri: vscode.Uri.file(__dirname),
+  } as unknown as vscode.ExtensionContext;
+}
+
+/**
+ * メモリ上に値を保持する Memento
+ */
+export class TestMemento implements vscode.Memento {
+  private values = new Map<string, unknown>();
+
+  keys(): readonly string[] {
+    return Array.from(this.values.keys());
+  }
+
+  get<T>(key: string, defaultValue?: T): T | undefined {
+    return this.values.has(key) ? (this.values.get(key) as T) : defaultValue;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    if (value === undefined) {
+      this.values.delete(key);
+    } else {
+      this.values.set(key, value);
+    }
+  }
+}
+
+/**
+ * 指定したフィールド以外は既定値のIssue
+ */
+export function createIssueSnapshot(
+  id: string,
+  changes: Partial<IssueSnapshot> = {}
+): IssueSnapshot {
+  return {
+    id,
+    identifier: id.toUpperCase(),
+    title: `Issue ${id}`,
+    priority: 0,
+    priorityLabel: "No priority",
+    url: `https://linear.app/mock/issue/${id}`,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    state: { id: "todo", name: "Todo", color: "#e2e2e2", type: "unstarted" },
+    assignee: { id: "user-me", name: "Me" },
+    creator: null,
+    project: { id: "project-web", name: "Web App" },
+    team: null,
+    labels: [],
+    cycle: null,
+    parent: null,
+    ...changes,
+  };
+}
+
+/**
+ * WebviewView の代わりに、拡張機能から送られたメッセージを記録する
+ * send で WebView からのメッセージを受け取ったときの処理を実行できる
+ */
+export function createTestWebviewView(): {
+  view: vscode.WebviewView;
+  posted: any[];
+  send(message: unknown): Promise<void>;
+} {
+  let listener: ((message: unknown) => Promise<void>) | undefined;
+  const posted: any[] = [];
+  const webview = {
+    options: {},
+    html: "",
+    cspSource: "",
+    asWebviewUri: (uri: vscode.Uri) => uri,
+    postMessage: async (message: unknown) => {
+      posted.push(message);
+      return true;
+    },
+    onDidReceiveMessage: (handler: (message: unknown) => Promise<void>) => {
+      listener = handler;
+      return new vscode.Disposable(() => undefined);
+    },
+  };
+  const view = {
+    webview,
+    visible: true,
+    show: () => undefined,
+    onDidDispose: () => new vscode.Disposable(() => undefined),
+    onDidChangeVisibility: () => new vscode.Disposable(() => undefined),
+  };
+
+  return {
+    view: view as unknown as vscode.WebviewView,
+    posted,
+    send: async (message) => {
+      if (!listener) {
+        throw new Error("resolveWebviewView has not been called");
+      }
+      await listener(message);
+    },
+  };
+}
+
+/**
+ * ツリーの最上位のグループを「ラベル: IssueのIDの一覧」の配列として返す
+ * ステータスはチームごとに別のため、同じラベルのグループが複数になる場合がある
+ * フィルターの表示など、グループ以外の要素は除く
+ */
+export async function getGroups(
+  provider: IssueTreeProvider
+): Promise<[string, string[]][]> {
+  const groups: [string, string[]][] = [];
+  for (const element of await provider.getChildren()) {
+    if ("type" in element && element.type === "group") {
+      groups.push([
+        element.label,
+        element.issues.map((issue) => issue.id).sort(),
+      ]);
+    }
+  }
+  return groups.sort(
+    ([a, aIds], [b, bIds]) =>
+      a.localeCompare(b) || aIds[0].localeCompare(bIds[0])
+  );
+}
+
+/**
+ * グループ化していないツリーの最上位のIssueのIDを返す
+ */
+export async function getIssueIds(
+  provider: IssueTreeProvider
+): Promise<string[]> {
+  return (await provider.getChildren())
+    .filter((element): element is IssueSnapshot => "identifier" in element)
+    .map((issue) => issue.id)
+    .sort();
+}
+
+/**
+ * イベントで非同期に行われる処理を待つ
+ */
+export function flushEvents(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
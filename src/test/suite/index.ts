@@ -0,0 +1,33 @@
+import * as path from "path";
+import Mocha from "mocha";
+import glob from "glob";
+
+/**
+ * 拡張機能の開発ホストから呼び出され、suite 配下の *.test.js をすべて実行する
+ */
+export function run(): Promise<void> {
+  const mocha = new Mocha({ ui: "tdd", color: true, timeout: 10000 });
+  const testsRoot = path.resolve(__dirname);
+
+  return new Promise((resolve, reject) => {
+    glob("**/*.test.js", { cwd: testsRoot }, (err, files) => {
+      if (err) {
+        return reject(err);
+      }
+
+      files.forEach((file) => mocha.addFile(path.resolve(testsRoot, file)));
+
+      try {
+        mocha.run((failures) => {
+          if (failures > 0) {
+            reject(new Error(`${failures} tests failed.`));
+          } else {
+            resolve();
+          }
+        });
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
@@ -0,0 +1,100 @@
+import * as assert from "assert";
+import { applyIssueDelta } from "../../services/sync/issueDelta";
+import { createIssueSnapshot as issue } from "./helpers";
+
+const UPDATED_AT = "2024-02-01T00:00:00.000Z";
+
+/**
+ * 「自分にアサインされた未完了のWeb AppのIssue」の一覧を差分同期した場面を想定する
+ * - matching: 前回以降に更新され、現在もフィルターに一致するIssue
+ * - changed: 一覧内のIssueのうち前回以降に更新されたもの（フィルターを問わない）
+ */
+suite("applyIssueDelta", () => {
+  const cached = [issue("a"), issue("b"), issue("c")];
+
+  test("removes an issue reassigned to someone else", () => {
+    const reassigned = issue("b", {
+      assignee: { id: "user-alice", name: "Alice" },
+      updatedAt: UPDATED_AT,
+    });
+
+    const result = applyIssueDelta(cached, [], [reassigned]);
+
+    assert.deepStrictEqual(
+      result.issues.map((i) => i.id),
+      ["a", "c"]
+    );
+    assert.deepStrictEqual(result.removedIds, ["b"]);
+    assert.deepStrictEqual(result.updatedIds, []);
+  });
+
+  test("removes an issue that was completed", () => {
+    const completed = issue("a", {
+      state: { id: "done", name: "Done", color: "#5e6ad2", type: "completed" },
+      completedAt: UPDATED_AT,
+      updatedAt: UPDATED_AT,
+    });
+
+    const result = applyIssueDelta(cached, [], [completed]);
+
+    assert.deepStrictEqual(
+      result.issues.map((i) => i.id),
+      ["b", "c"]
+    );
+    assert.deepStrictEqual(result.removedIds, ["a"]);
+  });
+
+  test("removes an archived issue even if the filter still matches it", () => {
+    const archived = issue("c", {
+      archivedAt: UPDATED_AT,
+      updatedAt: UPDATED_AT,
+    });
+
+    const result = applyIssueDelta(cached, [archived], [archived]);
+
+    assert.deepStrictEqual(
+      result.issues.map((i) => i.id),
+      ["a", "b"]
+    );
+    assert.deepStrictEqual(result.removedIds, ["c"]);
+    assert.deepStrictEqual(result.updatedIds, []);
+  });
+
+  test("removes an issue moved to another project", () => {
+    const moved = issue("b", {
+      project: { id: "project-mobile", name: "Mobile App" },
+      updatedAt: UPDATED_AT,
+    });
+
+    const result = applyIssueDelta(cached, [], [moved]);
+
+    assert.deepStrictEqual(
+      result.issues.map((i) => i.id),
+      ["a", "c"]
+    );
+    assert.deepStrictEqual(result.removedIds, ["b"]);
+  });
+
+  test("replaces an updated issue in place and appends new matches", () => {
+    const renamed = issue("b", { title: "Renamed", updatedAt: UPDATED_AT });
+    const added = issue("d", { updatedAt: UPDATED_AT });
+
+    const result = applyIssueDelta(cached, [renamed, added], [renamed]);
+
+    assert.deepStrictEqual(
+      result.issues.map((i) => i.id),
+      ["a", "b", "c", "d"]
+    );
+    assert.strictEqual(result.issues[1].title, "Renamed");
+    assert.deepStrictEqual(result.updatedIds.sort(), ["b", "d"]);
+    assert.deepStrictEqual(result.removedIds, []);
+  });
+
+  test("keeps the list unchanged when nothing was updated", () => {
+    const result = applyIssueDelta(cached, [], []);
+
+    assert.deepStrictEqual(result.issues, cached);
+    assert.deepStrictEqual(result.updatedIds, []);
+    assert.deepStrictEqual(result.removedIds, []);
+  });
+});
@@ -0,0 +1,107 @@
+import * as assert from "assert";
+import * as path from "path";
+import * as vscode from "vscode";
+import { IssueSnapshot } from "../../models/issueSnapshot";
+import { IssueDetailViewProvider } from "../../providers/issueDetailViewProvider";
+import { InMemoryIssueBackend } from "../../services/backend/inMemoryIssueBackend";
+import { createTestWebviewView, flushEvents } from "./helpers";
+
+/**
+ * Issue詳細を要求された時点の内容で取得し、テストから release を呼ぶまで返さないバックエンド
+ */
+class GatedIssueBackend extends InMemoryIssueBackend {
+  readonly requests: {
+    issueId: string;
+    token?: vscode.CancellationToken;
+    release: () => void;
+  }[] = [];
+
+  async getIssueDetails(
+    issueId: string,
+    token?: vscode.CancellationToken
+  ): Promise<IssueSnapshot> {
+    const issue = await super.getIssueDetails(issueId);
+    await new Promise<void>((release) =>
+      this.requests.push({ issueId, token, release })
+    );
+    return issue;
+  }
+}
+
+suite("IssueDetailViewProvider", () => {
+  let backend: GatedIssueBackend;
+  let provider: IssueDetailViewProvider;
+  let webview: ReturnType<typeof createTestWebviewView>;
+
+  const shownIssues = () =>
+    webview.posted
+      .filter((m) => m.type === "updateIssue")
+      .map((m) => `${m.issue.id}: ${m.issue.title}`);
+
+  setup(() => {
+    backend = new GatedIssueBackend();
+    // WebViewのHTMLを読み込めるよう、拡張機能のルートを渡す（out/src/test/suite から3階層上）
+    provider = new IssueDetailViewProvider(
+      vscode.Uri.file(path.resolve(__dirname, "../../../")),
+      backend
+    );
+    webview = createTestWebviewView();
+    provider.resolveWebviewView(
+      webview.view,
+      {} as vscode.WebviewViewResolveContext,
+      new vscode.CancellationTokenSource().token
+    );
+  });
+
+  teardown(() => {
+    provider.dispose();
+    backend.dispose();
+  });
+
+  test("reloads once when the issue changes during a load", async () => {
+    const load = provider.updateIssueDetail("issue-eng-1");
+    await flushEvents();
+
+    // 読み込み中に更新され、再描画の要求が続けて届く
+    await backend.updateIssue("issue-eng-1", { title: "Renamed" });
+    const refreshes = [provider.refresh(), provider.refresh()];
+
+    backend.requests[0].release();
+    await load;
+    await flushEvents();
+    assert.strictEqual(backend.requests.length, 2);
+
+    backend.requests[1].release();
+    await Promise.all(refreshes);
+
+    assert.strictEqual(backend.requests.length, 2);
+    assert.deepStrictEqual(shownIssues(), [
+      "issue-eng-1: Fix login redirect loop",
+      "issue-eng-1: Renamed",
+    ]);
+  });
+
+  test("cancels the load of an issue that is no longer selected", async () => {
+    const first = provider.updateIssueDetail("issue-eng-1");
+    await flushEvents();
+    const second = provider.updateIssueDetail("issue-eng-2");
+    await flushEvents();
+
+    assert.strictEqual(
+      backend.requests[0].token?.isCancellationRequested,
+      true
+    );
+    assert.strictEqual(
+      backend.requests[1].token?.isCancellationRequested,
+      false
+    );
+
+    backend.requests.forEach((request) => request.release());
+    await Promise.all([first, second]);
+
+    assert.deepStrictEqual(
+      shownIssues().map((issue) => issue.split(":")[0]),
+      ["issue-eng-2"]
+    );
+  });
+});
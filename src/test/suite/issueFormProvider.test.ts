@@ -0,0 +1,122 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { IssueFormProvider } from "../../providers/issueFormProvider";
+import { IssueTreeProvider } from "../../providers/issueTreeProvider";
+import { InMemoryIssueBackend } from "../../services/backend/inMemoryIssueBackend";
+import { createTestContext, createTestWebviewView, getGroups } from "./helpers";
+
+suite("IssueFormProvider", () => {
+  let backend: InMemoryIssueBackend;
+  let form: IssueFormProvider;
+  let webview: ReturnType<typeof createTestWebviewView>;
+  // 拡張機能を有効化せずに実行するため、フォームが呼び出すコマンドを代わりに登録する
+  let refreshCommand: vscode.Disposable | undefined;
+  let refreshCount = 0;
+
+  suiteSetup(async () => {
+    const commands = await vscode.commands.getCommands(true);
+    if (!commands.includes("linear.refreshIssues")) {
+      refreshCommand = vscode.commands.registerCommand(
+        "linear.refreshIssues",
+        () => refreshCount++
+      );
+    }
+  });
+
+  suiteTeardown(() => {
+    refreshCommand?.dispose();
+  });
+
+  setup(() => {
+    backend = new InMemoryIssueBackend();
+    form = new IssueFormProvider(vscode.Uri.file(__dirname), backend);
+    webview = createTestWebviewView();
+    form.resolveWebviewView(
+      webview.view,
+      {} as vscode.WebviewViewResolveContext,
+      new vscode.CancellationTokenSource().token
+    );
+    refreshCount = 0;
+  });
+
+  teardown(() => {
+    backend.dispose();
+  });
+
+  test("loads teams and workflow states for the selects", async () => {
+    await webview.send({ type: "getTeams" });
+    await webview.send({ type: "getStates", teamId: "team-des" });
+
+    const teams = webview.posted.find((m) => m.type === "teamsLoaded");
+    assert.deepStrictEqual(
+      teams.teams.map((team: { id: string }) => team.id),
+      ["team-eng", "team-des"]
+    );
+    const states = webview.posted.find((m) => m.type === "statesLoaded");
+    assert.deepStrictEqual(
+      states.states.map((state: { name: string }) => state.name),
+      ["Backlog", "Todo", "In Progress", "Done", "Canceled"]
+    );
+  });
+
+  test("creates an issue, resets the form and refreshes the tree", async () => {
+    await webview.send({
+      type: "createIssue",
+      teamId: "team-eng",
+      title: "Write release notes",
+      description: "For the next version",
+      stateId: "eng-todo",
+    });
+
+    const created = backend.store.issues.find(
+      (issue) => issue.title === "Write release notes"
+    );
+    assert.ok(created);
+    assert.strictEqual(created.stateId, "eng-todo");
+    assert.strictEqual(created.description, "For the next version");
+
+    const types = webview.posted.map((m) => m.type);
+    assert.deepStrictEqual(types, ["issueCreated", "showCreateForm"]);
+    assert.strictEqual(webview.posted[0].issue.issueId, created.id);
+    if (refreshCommand) {
+      assert.strictEqual(refreshCount, 1);
+    }
+  });
+
+  test("updates an issue and the tree moves it to its new group", async () => {
+    const tree = new IssueTreeProvider(backend, createTestContext());
+    await getGroups(tree);
+
+    await webview.send({
+      type: "updateIssue",
+      issueId: "issue-eng-2",
+      title: "Add a dark mode toggle",
+      stateId: "eng-in-progress",
+    });
+
+    const updated = backend.store.getIssue("issue-eng-2");
+    assert.strictEqual(updated?.title, "Add a dark mode toggle");
+    assert.deepStrictEqual(
+      webview.posted.map((m) => m.type),
+      ["issueUpdated", "showCreateForm"]
+    );
+    assert.deepStrictEqual(
+      (await getGroups(tree)).find(([label]) => label === "In Progress"),
+      ["In Progress", ["issue-eng-1", "issue-eng-2"]]
+    );
+  });
+
+  test("reports a failed creation to the form", async () => {
+    await webview.send({
+      type: "createIssue",
+      teamId: "team-unknown",
+      title: "Orphan",
+      stateId: "eng-todo",
+    });
+
+    const error = webview.posted.find((m) => m.type === "error");
+    assert.ok(error);
+    assert.match(error.message, /Team team-unknown not found/);
+    assert.ok(!backend.store.issues.some((issue) => issue.title === "Orphan"));
+  });
+});
@@ -0,0 +1,152 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { IssueTreeProvider } from "../../providers/issueTreeProvider";
+import { InMemoryIssueBackend } from "../../services/backend/inMemoryIssueBackend";
+import {
+  createTestContext,
+  flushEvents,
+  getGroups,
+  getIssueIds,
+} from "./helpers";
+
+suite("IssueTreeProvider", () => {
+  let backend: InMemoryIssueBackend;
+  let provider: IssueTreeProvider;
+
+  setup(() => {
+    backend = new InMemoryIssueBackend();
+    provider = new IssueTreeProvider(backend, createTestContext());
+  });
+
+  teardown(() => {
+    backend.dispose();
+  });
+
+  test("groups my open issues by status by default", async () => {
+    assert.deepStrictEqual(await getGroups(provider), [
+      ["In Progress", ["issue-eng-1"]],
+      ["Todo", ["issue-des-2"]],
+      ["Todo", ["issue-eng-2"]],
+    ]);
+  });
+
+  test("gives status groups with the same name their own tree item ids", async () => {
+    const items = await Promise.all(
+      (
+        await provider.getChildren()
+      ).map((element) => provider.getTreeItem(element))
+    );
+    const ids = items
+      .filter((item) => item.contextValue === "issueGroup")
+      .map((item) => item.id);
+
+    assert.strictEqual(ids.length, 3);
+    assert.strictEqual(new Set(ids).size, ids.length);
+  });
+
+  test("groups by project with a group for issues without one", async () => {
+    provider.setGroupBy("project");
+
+    assert.deepStrictEqual(await getGroups(provider), [
+      ["No Project", ["issue-des-2"]],
+      ["Web App", ["issue-eng-1", "issue-eng-2"]],
+    ]);
+  });
+
+  test("lists issues without groups", async () => {
+    provider.setGroupBy("none");
+
+    assert.deepStrictEqual(await getIssueIds(provider), [
+      "issue-des-2",
+      "issue-eng-1",
+      "issue-eng-2",
+    ]);
+  });
+
+  test("includes completed issues when requested", async () => {
+    provider.setFilter({ includeCompleted: true });
+
+    assert.deepStrictEqual(
+      (await getGroups(provider)).find(([label]) => label === "Done"),
+      ["Done", ["issue-eng-5"]]
+    );
+  });
+
+  test("filters by status, priority and project", async () => {
+    provider.setGroupBy("none");
+
+    provider.setFilter({ status: ["eng-todo"] });
+    assert.deepStrictEqual(await getIssueIds(provider), ["issue-eng-2"]);
+
+    provider.clearFilter();
+    provider.setFilter({ priority: [2] });
+    assert.deepStrictEqual(await getIssueIds(provider), ["issue-eng-1"]);
+
+    provider.clearFilter();
+    provider.setFilter({ project: ["project-web"] });
+    assert.deepStrictEqual(await getIssueIds(provider), [
+      "issue-eng-1",
+      "issue-eng-2",
+    ]);
+  });
+
+  test("switches the scope of the list", async () => {
+    provider.setGroupBy("none");
+
+    provider.setFilter({ scope: { type: "unassigned" } });
+    assert.deepStrictEqual(await getIssueIds(provider), ["issue-eng-4"]);
+
+    provider.setFilter({ scope: { type: "users", userIds: ["user-bob"] } });
+    assert.deepStrictEqual(await getIssueIds(provider), ["issue-des-1"]);
+
+    provider.setFilter({ scope: { type: "team", teamIds: ["team-des"] } });
+    assert.deepStrictEqual(await getIssueIds(provider), [
+      "issue-des-1",
+      "issue-des-2",
+    ]);
+  });
+
+  test("renders an issue as a tree item that opens the detail", async () => {
+    provider.setGroupBy("none");
+    const [issue] = (await provider.getChildren()).filter(
+      (element) => "identifier" in element && element.id === "issue-eng-1"
+    );
+
+    const item = await provider.getTreeItem(issue);
+
+    assert.strictEqual(item.label, "ENG-1: Fix login redirect loop");
+    assert.strictEqual(item.description, "In Progress");
+    assert.strictEqual(item.contextValue, "issue");
+    assert.strictEqual(item.command?.command, "linear.showIssueDetail");
+    assert.strictEqual(
+      item.collapsibleState,
+      vscode.TreeItemCollapsibleState.None
+    );
+  });
+
+  test("moves an issue to its new status group after a state change", async () => {
+    await getGroups(provider);
+
+    await backend.updateIssueState("issue-eng-2", "eng-in-progress");
+
+    assert.deepStrictEqual(await getGroups(provider), [
+      ["In Progress", ["issue-eng-1", "issue-eng-2"]],
+      ["Todo", ["issue-des-2"]],
+    ]);
+  });
+
+  test("shows a created issue after the backend reports the change", async () => {
+    provider.setGroupBy("none");
+    await getIssueIds(provider);
+
+    const result = await backend.createIssue({
+      teamId: "team-eng",
+      title: "Write release notes",
+      assigneeId: "user-me",
+    });
+    await flushEvents();
+
+    assert.ok(result.issueId);
+    assert.ok((await getIssueIds(provider)).includes(result.issueId));
+  });
+});
@@ -0,0 +1,234 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import {
+  MockLinearServer,
+  startMockLinearServer,
+} from "../../mock/mockLinearServer";
+import { IssueTreeProvider } from "../../providers/issueTreeProvider";
+import { CacheService } from "../../services/cache/cacheService";
+import { MementoCacheStorage } from "../../services/cache/cacheStorage";
+import { LinearService } from "../../services/linearService";
+import { MutationQueue } from "../../services/offline/mutationQueue";
+import { createTestContext, getIssueIds, TestMemento } from "./helpers";
+
+/**
+ * linear.apiUrl をモックサーバーに向け、SDK経由の通信を含めて LinearService を動かす
+ */
+suite("LinearService against the mock server", () => {
+  let server: MockLinearServer;
+  let cacheService: CacheService;
+  let mutationQueue: MutationQueue;
+  let service: LinearService;
+
+  // 次に一覧のキャッシュが更新されるまで待つ
+  const nextIssuesChange = () =>
+    new Promise<void>((resolve) => {
+      const listener = service.onDidChangeIssues(() => {
+        listener.dispose();
+        resolve();
+      });
+    });
+
+  suiteTeardown(async () => {
+    await vscode.workspace
+      .getConfiguration("linear")
+      .update("apiUrl", undefined, vscode.ConfigurationTarget.Global);
+  });
+
+  // テストごとに初期データのサーバーを起動する
+  setup(async () => {
+    server = await startMockLinearServer();
+    await vscode.workspace
+      .getConfiguration("linear")
+      .update("apiUrl", server.url, vscode.ConfigurationTarget.Global);
+
+    cacheService = new CacheService(
+      new MementoCacheStorage(new TestMemento()),
+      "test"
+    );
+    mutationQueue = new MutationQueue(new TestMemento(), "test");
+    service = new LinearService(
+      { apiKey: "test" },
+      cacheService,
+      mutationQueue
+    );
+  });
+
+  teardown(async () => {
+    service.dispose();
+    cacheService.dispose();
+    await server.close();
+  });
+
+  test("fetches my open issues and caches the list", async () => {
+    const issues = await service.getIssues(false);
+
+    assert.deepStrictEqual(issues.map((issue) => issue.id).sort(), [
+      "issue-des-2",
+      "issue-eng-1",
+      "issue-eng-2",
+    ]);
+    assert.deepStrictEqual(service.getIssueListInfo(false), {
+      total: 3,
+      hasMore: false,
+    });
+    assert.strictEqual(cacheService.getIssueListKeys().length, 1);
+  });
+
+  test("serves the first tree load from the warmed-up list", async () => {
+    // 起動時のウォームアップと同じ呼び出し
+    await service.getIssues(false);
+    const remaining = service.getRateLimitBudget().requests?.remaining;
+
+    const provider = new IssueTreeProvider(service, createTestContext());
+    provider.clearFilter();
+    provider.setGroupBy("none");
+    const issueIds = await getIssueIds(provider);
+
+    assert.deepStrictEqual(issueIds, [
+      "issue-des-2",
+      "issue-eng-1",
+      "issue-eng-2",
+    ]);
+    assert.strictEqual(
+      service.getRateLimitBudget().requests?.remaining,
+      remaining
+    );
+    assert.strictEqual(cacheService.getIssueListKeys().length, 1);
+  });
+
+  test("loads an issue with its comments", async () => {
+    const issue = await service.getIssueDetails("issue-eng-1");
+    const comments = await service.getIssueComments("issue-eng-1");
+
+    assert.strictEqual(issue.identifier, "ENG-1");
+    assert.strictEqual(issue.state?.name, "In Progress");
+    assert.deepStrictEqual(
+      comments.map((comment) => comment.body),
+      ["I can reproduce this on **Safari** only.", "Looking into it."]
+    );
+  });
+
+  test("sends a state change and keeps the cached issue in sync", async () => {
+    await service.getIssues(false);
+
+    await service.updateIssueState("issue-eng-2", "eng-in-progress");
+
+    assert.strictEqual(
+      server.store.getIssue("issue-eng-2")?.stateId,
+      "eng-in-progress"
+    );
+    const cached = await service.getIssueDetails("issue-eng-2");
+    assert.strictEqual(cached.state?.id, "eng-in-progress");
+  });
+
+  test("syncs the lists after a change even when the budget is low", async () => {
+    await service.getIssues(false);
+    server.setRequestsRemaining(100);
+    const changed = nextIssuesChange();
+
+    await service.updateIssueState("issue-eng-2", "eng-done");
+    await changed;
+
+    assert.ok(service.isBudgetLow);
+    assert.deepStrictEqual(
+      cacheService
+        .getIssueList(cacheService.getIssueListKeys()[0], 0)
+        ?.map((issue) => issue.id)
+        .sort(),
+      ["issue-des-2", "issue-eng-1"]
+    );
+  });
+
+  test("sends an edit while an earlier change is in conflict", async () => {
+    await service.getIssues(false);
+    const conflicted = mutationQueue.enqueue({
+      type: "updateIssue",
+      issueId: "issue-eng-2",
+      input: { title: "Renamed offline" },
+    });
+    mutationQueue.markConflict(conflicted.id, "Changed remotely");
+
+    await service.updateIssueState("issue-eng-2", "eng-in-progress");
+
+    assert.strictEqual(
+      server.store.getIssue("issue-eng-2")?.stateId,
+      "eng-in-progress"
+    );
+    assert.deepStrictEqual(
+      mutationQueue.getAll().map((mutation) => mutation.id),
+      [conflicted.id]
+    );
+  });
+
+  test("adds a created issue to the cached list", async () => {
+    await service.getIssues(false);
+    const changed = nextIssuesChange();
+
+    await service.createIssue({
+      teamId: "team-eng",
+      title: "Write release notes",
+      assigneeId: "user-me",
+    });
+    await changed;
+
+    const issues = await service.getIssues(false);
+    assert.ok(issues.some((issue) => issue.title === "Write release notes"));
+  });
+
+  test("keeps an issue with an unsent change during a background sync", async () => {
+    await service.getIssues(false);
+    // 別の端末で変更された
+    server.store.updateIssue("issue-eng-1", { title: "Renamed elsewhere" });
+    server.store.updateIssue("issue-eng-2", { title: "Reworded elsewhere" });
+    const pending = mutationQueue.enqueue({
+      type: "updateIssue",
+      issueId: "issue-eng-1",
+      input: { title: "Renamed here" },
+    });
+
+    // キャッシュを返した後の差分同期を待つ
+    let changed = nextIssuesChange();
+    await service.getIssues(false);
+    await changed;
+
+    assert.strictEqual(
+      cacheService.getIssue("issue-eng-1", 0)?.title,
+      "Fix login redirect loop"
+    );
+    assert.strictEqual(
+      cacheService.getIssue("issue-eng-2", 0)?.title,
+      "Reworded elsewhere"
+    );
+
+    // 変更を送信した後の差分同期では、残したIssueも取得し直す
+    mutationQueue.remove(pending.id);
+    changed = nextIssuesChange();
+    await service.getIssues(false);
+    await changed;
+
+    assert.strictEqual(
+      cacheService.getIssue("issue-eng-1", 0)?.title,
+      "Renamed elsewhere"
+    );
+  });
+
+  test("reads the rate limit from requests made through the SDK", async () => {
+    // チーム一覧は手書きのクエリではなく、SDKのメソッドで取得する
+    await service.getTeams();
+
+    const { requests } = service.getRateLimitBudget();
+    assert.strictEqual(requests?.limit, 1500);
+    assert.ok(requests.remaining < 1500);
+  });
+
+  test("shows a new comment after adding it", async () => {
+    await service.getIssueComments("issue-eng-1");
+
+    const sent = await service.addComment("issue-eng-1", "Fixed in #42");
+
+    assert.strictEqual(sent, true);
+    const comments = await service.getIssueComments("issue-eng-1");
+    assert.strictEqual(comments[comments.length - 1].body, "Fixed in #42");
+  });
+});
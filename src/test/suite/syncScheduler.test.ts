@@ -0,0 +1,76 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { LinearService } from "../../services/linearService";
+import { SyncScheduler } from "../../services/sync/syncScheduler";
+
+/**
+ * 同期の判定と実行の回数だけを記録する LinearService
+ */
+class StubLinearService {
+  budgetChecks = 0;
+  syncs = 0;
+
+  constructor(private readonly budgetLow: boolean) {}
+
+  get isBudgetLow(): boolean {
+    this.budgetChecks++;
+    return this.budgetLow;
+  }
+
+  async syncIssues(): Promise<void> {
+    this.syncs++;
+  }
+}
+
+suite("SyncScheduler", () => {
+  let scheduler: SyncScheduler | undefined;
+
+  suiteSetup(async () => {
+    await vscode.workspace
+      .getConfiguration("linear")
+      .update("syncInterval", 30, vscode.ConfigurationTarget.Global);
+  });
+
+  suiteTeardown(async () => {
+    await vscode.workspace
+      .getConfiguration("linear")
+      .update("syncInterval", undefined, vscode.ConfigurationTarget.Global);
+  });
+
+  teardown(() => {
+    scheduler?.dispose();
+    scheduler = undefined;
+  });
+
+  // 同期間隔が過ぎたものとして、予約した時刻を待たずに定期同期を1回実行する
+  const runOnce = (target: SyncScheduler) => {
+    const internals = target as unknown as {
+      lastSyncAt: number;
+      run(): Promise<void>;
+    };
+    internals.lastSyncAt = Date.now() - 60 * 1000;
+    return internals.run();
+  };
+
+  test("waits for the next interval when the budget is low", async () => {
+    const service = new StubLinearService(true);
+    scheduler = new SyncScheduler(service as unknown as LinearService);
+    scheduler.start();
+
+    await runOnce(scheduler);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    assert.strictEqual(service.budgetChecks, 1);
+    assert.strictEqual(service.syncs, 0);
+  });
+
+  test("syncs when the budget is available", async () => {
+    const service = new StubLinearService(false);
+    scheduler = new SyncScheduler(service as unknown as LinearService);
+    scheduler.start();
+
+    await runOnce(scheduler);
+
+    assert.strictEqual(service.syncs, 1);
+  });
+});